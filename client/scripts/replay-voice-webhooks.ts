@@ -0,0 +1,70 @@
+/**
+ * Re-sends captured voice-provider events to a running server, in file-name
+ * order, so the webhook receiver can be exercised without a live call.
+ *
+ *   VOICE_WEBHOOK_SECRET=... npm run webhooks:replay -- [--url URL] [--call ID] [path...]
+ *
+ * Each path is a JSON file holding one `{ message }` payload or an array of
+ * them, or a directory of such files. With no path the bundled fixtures are
+ * sent. `--call` rewrites the provider call ID, so the events can be merged
+ * into a call recorded locally (see its `providerCallId`).
+ */
+import { readdir, readFile, stat } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { parseArgs } from "util";
+
+const SECRET_HEADER = "x-vapi-secret";
+const defaultFixtures = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "voice-webhooks");
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    url: { type: "string", default: `http://localhost:${process.env.PORT || 5000}/api/webhooks/voice` },
+    call: { type: "string" },
+  },
+});
+
+async function jsonFiles(target: string): Promise<string[]> {
+  if (!(await stat(target)).isDirectory()) return [target];
+  const names = (await readdir(target)).filter((name) => name.endsWith(".json")).sort();
+  return names.map((name) => path.join(target, name));
+}
+
+async function main() {
+  const secret = process.env.VOICE_WEBHOOK_SECRET;
+  if (!secret) {
+    throw new Error("Set VOICE_WEBHOOK_SECRET to the secret the server expects");
+  }
+
+  const files: string[] = [];
+  for (const target of positionals.length > 0 ? positionals : [defaultFixtures]) {
+    files.push(...(await jsonFiles(target)));
+  }
+
+  let failed = 0;
+  for (const file of files) {
+    const parsed = JSON.parse(await readFile(file, "utf8"));
+    for (const payload of Array.isArray(parsed) ? parsed : [parsed]) {
+      if (values.call && payload?.message?.call) {
+        payload.message.call.id = values.call;
+      }
+      const res = await fetch(values.url!, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", [SECRET_HEADER]: secret },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) failed++;
+      console.log(`${path.basename(file)} ${payload?.message?.type ?? "?"} -> ${res.status} ${await res.text()}`);
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`${failed} event(s) were rejected`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,14 @@
+import { randomUUID } from "crypto";
+import type { AssistantProvider, AssistantPush } from "./types";
+
+/**
+ * Hands out IDs for local work without a provider account. Nothing is sent
+ * anywhere; the versions in Postgres are the only copy of the configuration.
+ */
+export class FakeAssistantProvider implements AssistantProvider {
+  readonly name = "fake";
+
+  async push({ providerAssistantId }: AssistantPush) {
+    return { providerAssistantId: providerAssistantId ?? `fake-assistant-${randomUUID()}` };
+  }
+}
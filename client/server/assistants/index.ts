@@ -0,0 +1,17 @@
+import { FakeAssistantProvider } from "./fake-provider";
+import { VapiAssistantProvider } from "./vapi-provider";
+import type { AssistantProvider } from "./types";
+
+export * from "./types";
+
+// ASSISTANT_PROVIDER=vapi pushes for real; anything else keeps them in memory
+export function createAssistantProvider(): AssistantProvider {
+  if (process.env.ASSISTANT_PROVIDER !== "vapi") {
+    return new FakeAssistantProvider();
+  }
+  const { VAPI_PRIVATE_KEY } = process.env;
+  if (!VAPI_PRIVATE_KEY) {
+    throw new Error("ASSISTANT_PROVIDER=vapi needs VAPI_PRIVATE_KEY");
+  }
+  return new VapiAssistantProvider(VAPI_PRIVATE_KEY);
+}
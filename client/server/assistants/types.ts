@@ -0,0 +1,17 @@
+import type { AssistantConfig } from "@shared/schema";
+
+export interface AssistantPush {
+  name: string;
+  /** Set when the assistant already exists at the provider and is updated in place. */
+  providerAssistantId: string | null;
+  config: AssistantConfig;
+}
+
+export interface AssistantProvider {
+  readonly name: string;
+  /**
+   * Replaces the assistant's whole configuration at the provider, creating
+   * it first if needed, and resolves with the provider's ID for it.
+   */
+  push(assistant: AssistantPush): Promise<{ providerAssistantId: string }>;
+}
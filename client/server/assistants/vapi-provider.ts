@@ -0,0 +1,60 @@
+import type { AssistantConfig } from "@shared/schema";
+import type { AssistantProvider, AssistantPush } from "./types";
+
+const VAPI_API_URL = "https://api.vapi.ai";
+
+// Deepgram language codes for the demo languages; Tunisian is transcribed as Arabic
+const transcriberLanguages: Record<string, string> = {
+  EN: "en",
+  ES: "es",
+  FR: "fr",
+  DE: "de",
+  CN: "zh",
+  AR: "ar",
+  IT: "it",
+  JP: "ja",
+  TN: "ar",
+};
+
+function assistantBody(name: string, config: AssistantConfig) {
+  return {
+    name,
+    // PATCH leaves omitted fields alone, so a cleared greeting is sent as ""
+    firstMessage: config.firstMessage,
+    model: {
+      provider: config.modelProvider,
+      model: config.model,
+      messages: [{ role: "system", content: config.systemPrompt }],
+    },
+    voice: { provider: config.voiceProvider, voiceId: config.voiceId },
+    transcriber: { provider: "deepgram", language: transcriberLanguages[config.language] ?? "multi" },
+    endCallPhrases: config.endCallPhrases,
+  };
+}
+
+/** Creates and updates assistants through Vapi's REST API. */
+export class VapiAssistantProvider implements AssistantProvider {
+  readonly name = "vapi";
+
+  constructor(private privateKey: string) {}
+
+  async push({ name, providerAssistantId, config }: AssistantPush) {
+    const res = await fetch(
+      providerAssistantId ? `${VAPI_API_URL}/assistant/${encodeURIComponent(providerAssistantId)}` : `${VAPI_API_URL}/assistant`,
+      {
+        method: providerAssistantId ? "PATCH" : "POST",
+        headers: {
+          Authorization: `Bearer ${this.privateKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(assistantBody(name, config)),
+      },
+    );
+    const body = await res.json().catch(() => null);
+    if (!res.ok || typeof body?.id !== "string") {
+      const message = Array.isArray(body?.message) ? body.message.join("; ") : body?.message;
+      throw new Error(`Vapi rejected the assistant (${res.status}): ${message ?? res.statusText}`);
+    }
+    return { providerAssistantId: body.id as string };
+  }
+}
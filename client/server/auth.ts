@@ -0,0 +1,159 @@
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import {
+  loginSchema,
+  registerUserSchema,
+  type PublicUser,
+  type User as SelectUser,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { handle, parseBody } from "./http";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function comparePasswords(supplied: string, stored: string) {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+function toPublicUser({ password: _password, ...user }: SelectUser): PublicUser {
+  return user;
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Authentication required" });
+  }
+  next();
+};
+
+export function setupAuth(app: Express) {
+  if (!process.env.SESSION_SECRET) {
+    throw new Error("SESSION_SECRET must be set to sign session cookies.");
+  }
+
+  const sessionSettings: session.SessionOptions = {
+    secret: process.env.SESSION_SECRET,
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production",
+      maxAge: 7 * 24 * 60 * 60 * 1000,
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+        if (!user || !(await comparePasswords(password, user.password))) {
+          return done(null, false, { message: "Invalid username or password" });
+        }
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ?? false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  // The first account bootstraps the staff list; after that only signed-in
+  // staff can add colleagues.
+  app.post("/api/register", handle(async (req, res) => {
+    const body = parseBody(registerUserSchema, req, res);
+    if (!body) return;
+
+    const restricted = () => res.status(403).json({ message: "Registration is restricted to staff" });
+    // Answers most outsiders before hashing; createFirstUser has the final say
+    if (!req.isAuthenticated() && (await storage.countUsers()) > 0) {
+      return restricted();
+    }
+
+    const account = { username: body.username, password: await hashPassword(body.password) };
+    if (req.isAuthenticated()) {
+      const user = await storage.createUser(account);
+      if (!user) {
+        return res.status(400).json({ message: "Username already exists" });
+      }
+      return res.status(201).json(toPublicUser(user));
+    }
+
+    const user = await storage.createFirstUser(account);
+    if (!user) {
+      return restricted();
+    }
+    await new Promise<void>((resolve, reject) =>
+      req.login(user, (err) => (err ? reject(err) : resolve())),
+    );
+    res.status(201).json(toPublicUser(user));
+  }));
+
+  app.post("/api/login", (req, res, next) => {
+    const body = parseBody(loginSchema, req, res);
+    if (!body) return;
+    // The strategy reads req.body, so hand it the trimmed username
+    req.body = body;
+
+    passport.authenticate(
+      "local",
+      (err: unknown, user: SelectUser | false, info?: { message?: string }) => {
+        if (err) return next(err);
+        if (!user) {
+          return res.status(401).json({ message: info?.message ?? "Invalid username or password" });
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.status(200).json(toPublicUser(user));
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post("/api/logout", (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(200);
+    });
+  });
+
+  app.get("/api/user", (req, res) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    res.json(toPublicUser(req.user));
+  });
+}
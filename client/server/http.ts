@@ -0,0 +1,27 @@
+import type { Request, RequestHandler, Response } from "express";
+import { z } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+// Express 4 does not forward rejected promises to the error middleware
+export function handle(fn: (req: Request, res: Response) => Promise<unknown>): RequestHandler {
+  return (req, res, next) => {
+    fn(req, res).catch(next);
+  };
+}
+
+export function parseBody<T extends z.ZodTypeAny>(schema: T, req: Request, res: Response): z.infer<T> | undefined {
+  return parseInput(schema, req.body, res);
+}
+
+export function parseQuery<T extends z.ZodTypeAny>(schema: T, req: Request, res: Response): z.infer<T> | undefined {
+  return parseInput(schema, req.query, res);
+}
+
+function parseInput<T extends z.ZodTypeAny>(schema: T, input: unknown, res: Response): z.infer<T> | undefined {
+  const result = schema.safeParse(input);
+  if (!result.success) {
+    res.status(400).json({ message: fromZodError(result.error).message });
+    return undefined;
+  }
+  return result.data;
+}
@@ -0,0 +1,76 @@
+import express, { type Request, Response, NextFunction } from "express";
+import { registerRoutes } from "./routes";
+import { setupVite, serveStatic, log } from "./vite";
+
+const app = express();
+// End-of-call reports carry the whole conversation and exceed the 100kb default
+app.use(express.json({ limit: "2mb" }));
+app.use(express.urlencoded({ extended: false }));
+
+app.use((req, res, next) => {
+  const start = Date.now();
+  const path = req.path;
+  let capturedJsonResponse: unknown = undefined;
+
+  const originalResJson = res.json;
+  res.json = function (bodyJson, ...args) {
+    capturedJsonResponse = bodyJson;
+    return originalResJson.apply(res, [bodyJson, ...args]);
+  };
+
+  res.on("finish", () => {
+    const duration = Date.now() - start;
+    if (path.startsWith("/api")) {
+      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
+      if (capturedJsonResponse) {
+        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
+      }
+
+      if (logLine.length > 80) {
+        logLine = logLine.slice(0, 79) + "…";
+      }
+
+      log(logLine);
+    }
+  });
+
+  next();
+});
+
+// Errors from body-parser and other middleware carry an HTTP status
+function errorStatus(err: unknown) {
+  if (typeof err !== "object" || err === null) return undefined;
+  const { status, statusCode } = err as { status?: unknown; statusCode?: unknown };
+  const value = status ?? statusCode;
+  return typeof value === "number" && value >= 400 && value < 600 ? value : undefined;
+}
+
+(async () => {
+  const server = await registerRoutes(app);
+
+  // Unknown API paths must not fall through to the SPA's index.html
+  app.use("/api", (_req, res) => {
+    res.status(404).json({ message: "Not found" });
+  });
+
+  app.use((err: unknown, _req: Request, res: Response, _next: NextFunction) => {
+    const status = errorStatus(err) ?? 500;
+    // Server faults can carry database internals; only client errors explain themselves
+    const message = (status < 500 && err instanceof Error && err.message) || "Internal Server Error";
+
+    res.status(status).json({ message });
+    console.error(err);
+  });
+
+  // Vite is set up last so its catch-all route does not shadow the API
+  if (app.get("env") === "development") {
+    await setupVite(app, server);
+  } else {
+    serveStatic(app);
+  }
+
+  const port = Number(process.env.PORT) || 5000;
+  server.listen({ port, host: "0.0.0.0" }, () => {
+    log(`serving on port ${port}`);
+  });
+})();
@@ -0,0 +1,36 @@
+import { phoneNumberSchema, type InsertCampaign, type SkippedContact } from "@shared/schema";
+import type { CampaignContact } from "../storage";
+
+/**
+ * Turns a campaign's CSV rows into contacts. Rows without a usable number,
+ * or repeating one already imported, are reported instead of failing the
+ * whole file. Blank cells leave their variable unset.
+ */
+export function contactsFromRows({ phoneColumn, variableMapping, rows }: InsertCampaign) {
+  const contacts: CampaignContact[] = [];
+  const skipped: SkippedContact[] = [];
+  const seen = new Set<string>();
+
+  for (const { line, cells } of rows) {
+    const phone = phoneNumberSchema.safeParse(cells[phoneColumn] ?? "");
+    if (!phone.success) {
+      const value = cells[phoneColumn]?.trim();
+      skipped.push({ line, reason: value ? `"${value}" is not a valid phone number` : "No phone number" });
+      continue;
+    }
+    if (seen.has(phone.data)) {
+      skipped.push({ line, reason: `${phone.data} is already in the list` });
+      continue;
+    }
+    seen.add(phone.data);
+
+    const variables: Record<string, string> = {};
+    for (const [column, name] of Object.entries(variableMapping)) {
+      const value = cells[column]?.trim();
+      if (value) variables[name] = value;
+    }
+    contacts.push({ phoneNumber: phone.data, variables });
+  }
+
+  return { contacts, skipped };
+}
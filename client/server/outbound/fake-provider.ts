@@ -0,0 +1,48 @@
+import { randomUUID } from "crypto";
+import type { AttemptUpdate, DialRequest, OutboundProvider } from "./types";
+
+export interface FakeProviderTiming {
+  ringAfterMs: number;
+  /** From ringing to the outcome: answered, busy, or given up on. */
+  outcomeAfterMs: number;
+  /** How long an answered call lasts. */
+  talkMs: number;
+}
+
+const defaultTiming: FakeProviderTiming = { ringAfterMs: 1000, outcomeAfterMs: 4000, talkMs: 10000 };
+
+/**
+ * Stand-in for a telephony provider, for local work and demos. The number's
+ * last digit picks the outcome so each one can be tried on purpose:
+ * 1 is never answered, 2 is busy, 3 fails to connect, anything else answers.
+ */
+export class FakeOutboundProvider implements OutboundProvider {
+  readonly name = "fake";
+
+  constructor(private timing: FakeProviderTiming = defaultTiming) {}
+
+  async dial({ phoneNumber }: DialRequest, report: (update: AttemptUpdate) => void) {
+    const { ringAfterMs, outcomeAfterMs, talkMs } = this.timing;
+    const ringAt = ringAfterMs;
+    const outcomeAt = ringAt + outcomeAfterMs;
+
+    switch (phoneNumber.at(-1)) {
+      case "1":
+        setTimeout(() => report({ status: "ringing" }), ringAt);
+        setTimeout(() => report({ status: "no-answer", reason: "customer-did-not-answer" }), outcomeAt);
+        break;
+      case "2":
+        setTimeout(() => report({ status: "ringing" }), ringAt);
+        setTimeout(() => report({ status: "busy", reason: "customer-busy" }), outcomeAt);
+        break;
+      case "3":
+        setTimeout(() => report({ status: "failed", reason: "number-unreachable" }), ringAt);
+        break;
+      default:
+        setTimeout(() => report({ status: "ringing" }), ringAt);
+        setTimeout(() => report({ status: "in-progress" }), outcomeAt);
+        setTimeout(() => report({ status: "completed", reason: "assistant-ended-call" }), outcomeAt + talkMs);
+    }
+    return { providerCallId: `fake-${randomUUID()}` };
+  }
+}
@@ -0,0 +1,20 @@
+import { FakeOutboundProvider } from "./fake-provider";
+import { VapiOutboundProvider } from "./vapi-provider";
+import type { OutboundProvider } from "./types";
+
+export * from "./types";
+export { attemptUpdateFromWebhook } from "./vapi-provider";
+export { applyProviderAttemptEvent, startOutboundScheduler } from "./scheduler";
+export { contactsFromRows } from "./campaign-import";
+
+// OUTBOUND_PROVIDER=vapi dials for real; anything else uses the local stand-in
+export function createOutboundProvider(): OutboundProvider {
+  if (process.env.OUTBOUND_PROVIDER !== "vapi") {
+    return new FakeOutboundProvider();
+  }
+  const { VAPI_PRIVATE_KEY, VAPI_PHONE_NUMBER_ID } = process.env;
+  if (!VAPI_PRIVATE_KEY || !VAPI_PHONE_NUMBER_ID) {
+    throw new Error("OUTBOUND_PROVIDER=vapi needs VAPI_PRIVATE_KEY and VAPI_PHONE_NUMBER_ID");
+  }
+  return new VapiOutboundProvider(VAPI_PRIVATE_KEY, VAPI_PHONE_NUMBER_ID);
+}
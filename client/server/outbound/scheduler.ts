@@ -0,0 +1,178 @@
+import {
+  finalAttemptStatuses,
+  type AttemptStatus,
+  type Campaign,
+  type OutboundCall,
+  type OutboundCallAttempt,
+  type WebhookEvent,
+} from "@shared/schema";
+import { storage, type Executor, type OutboundAttemptUpdate } from "../storage";
+import { log } from "../vite";
+import type { AttemptUpdate, OutboundProvider } from "./types";
+import { attemptUpdateFromWebhook } from "./vapi-provider";
+
+const POLL_INTERVAL_MS = 5000;
+const CALLS_PER_TICK = 5;
+// Longer than any real call; an attempt still open by then lost its updates
+const STALE_ATTEMPT_MS = 60 * 60 * 1000;
+
+function isFinal(status: AttemptStatus) {
+  return (finalAttemptStatuses as string[]).includes(status);
+}
+
+// Busy and unanswered calls are worth another try; failures are not
+function nextStatus(call: OutboundCall, attempt: OutboundCallAttempt) {
+  if (attempt.status === "completed") return "completed" as const;
+  const retryable = attempt.status === "no-answer" || attempt.status === "busy";
+  return retryable && attempt.attemptNumber < call.maxAttempts ? "scheduled" as const : "failed" as const;
+}
+
+async function settleOutboundCall(attempt: OutboundCallAttempt, executor?: Executor) {
+  const call = await storage.getOutboundCall(attempt.outboundCallId, executor);
+  if (!call || call.status !== "dialing") return;
+
+  const status = nextStatus(call, attempt);
+  await storage.updateOutboundCall(call.id, {
+    status,
+    ...(status === "scheduled" && { scheduledFor: new Date(Date.now() + call.retryDelaySeconds * 1000) }),
+  }, executor);
+  log(`outbound call ${call.id} attempt ${attempt.attemptNumber}: ${attempt.status} -> ${status}`, "outbound");
+}
+
+export async function applyAttemptUpdate(attemptId: number, update: AttemptUpdate, executor?: Executor) {
+  const now = new Date();
+  const patch: OutboundAttemptUpdate = { status: update.status };
+  if (update.status === "in-progress") {
+    patch.answeredAt = now;
+  } else if (isFinal(update.status)) {
+    patch.endedAt = now;
+    patch.reason = "reason" in update ? update.reason : undefined;
+  }
+  const attempt = await storage.updateOutboundAttempt(attemptId, patch, executor);
+  if (attempt && isFinal(attempt.status)) {
+    await settleOutboundCall(attempt, executor);
+  }
+}
+
+/**
+ * Applies a voice webhook event to the attempt it reports on, once. Events
+ * without attempt progress, transcripts for one, are only marked processed.
+ * False if no attempt has that provider call ID yet.
+ */
+export async function applyProviderAttemptEvent(event: WebhookEvent) {
+  const attempt = await storage.getOutboundAttemptByProviderCallId(event.providerCallId);
+  if (!attempt) return false;
+  const update = attemptUpdateFromWebhook(event.payload);
+  await storage.mergeWebhookEventOnce(event.id, null, async (tx) => {
+    if (update) await applyAttemptUpdate(attempt.id, update, tx);
+  });
+  return true;
+}
+
+async function placeAttempt(provider: OutboundProvider, call: OutboundCall) {
+  let attempt: OutboundCallAttempt;
+  try {
+    attempt = await storage.createOutboundAttempt(call.id, provider.name);
+  } catch (error) {
+    // With no attempt nothing would ever settle the claimed call; hand it back
+    console.error(`Failed to start an attempt for outbound call ${call.id}`, error);
+    await storage.updateOutboundCall(call.id, {
+      status: "scheduled",
+      scheduledFor: new Date(Date.now() + call.retryDelaySeconds * 1000),
+    });
+    return;
+  }
+
+  const report = (update: AttemptUpdate) => {
+    applyAttemptUpdate(attempt.id, update).catch((error) => {
+      console.error(`Failed to record ${update.status} for outbound attempt ${attempt.id}`, error);
+    });
+  };
+  try {
+    const { providerCallId } = await provider.dial(
+      { phoneNumber: call.phoneNumber, assistantId: call.assistantId, variables: call.variables ?? undefined },
+      report,
+    );
+    await storage.updateOutboundAttempt(attempt.id, { providerCallId });
+    // Webhooks that arrived before `dial` returned found no attempt and were parked
+    for (const event of await storage.listPendingWebhookEvents(providerCallId)) {
+      await applyProviderAttemptEvent(event);
+    }
+  } catch (error) {
+    await applyAttemptUpdate(attempt.id, {
+      status: "failed",
+      reason: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+// `HH:mm` strings compare correctly as text
+function withinCallingWindow({ windowStart, windowEnd, timeZone }: Campaign, now: Date) {
+  const time = new Intl.DateTimeFormat("en-GB", {
+    timeZone,
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).format(now);
+  return windowStart < windowEnd
+    ? time >= windowStart && time < windowEnd
+    : time >= windowStart || time < windowEnd;
+}
+
+// Outside its window a campaign just waits, retries that fell due included
+async function dialCampaigns(provider: OutboundProvider, now: Date) {
+  for (const campaign of await storage.listCampaignsByStatus("running")) {
+    const { scheduled, dialing } = campaign.progress;
+    if (scheduled === 0 && dialing === 0) {
+      if (await storage.updateCampaignStatus(campaign.id, "running", "completed")) {
+        log(`campaign ${campaign.id} completed`, "outbound");
+      }
+      continue;
+    }
+    const free = campaign.concurrency - dialing;
+    if (free <= 0 || !withinCallingWindow(campaign, now)) continue;
+    for (const call of await storage.claimDueOutboundCalls(now, free, campaign.id)) {
+      await placeAttempt(provider, call);
+    }
+  }
+}
+
+async function failStaleAttempts() {
+  for (const attempt of await storage.listStaleOutboundAttempts(new Date(Date.now() - STALE_ATTEMPT_MS))) {
+    await applyAttemptUpdate(attempt.id, { status: "failed", reason: "No outcome reported" });
+  }
+}
+
+/**
+ * Polls for due outbound calls and dials them. Claiming happens in the
+ * database, so calls are never dialed twice even with several servers.
+ * Campaign concurrency is only checked per tick, though, so several servers
+ * can briefly go over it together.
+ */
+export function startOutboundScheduler(provider: OutboundProvider) {
+  let running = false;
+
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await failStaleAttempts();
+      const now = new Date();
+      for (const call of await storage.claimDueOutboundCalls(now, CALLS_PER_TICK, null)) {
+        await placeAttempt(provider, call);
+      }
+      await dialCampaigns(provider, now);
+    } catch (error) {
+      console.error("Outbound scheduler tick failed", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const timer = setInterval(tick, POLL_INTERVAL_MS);
+  // Never keep the process alive just for the scheduler
+  timer.unref();
+  void tick();
+  log(`outbound scheduler started with the ${provider.name} provider`, "outbound");
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,26 @@
+import type { FinalAttemptStatus } from "@shared/schema";
+
+export interface DialRequest {
+  /** E.164, e.g. "+21695926440". */
+  phoneNumber: string;
+  assistantId: string;
+  /** Values for the `{{name}}` placeholders in the assistant's prompts. */
+  variables?: Record<string, string>;
+}
+
+/** Progress of one attempt, in the order a provider reports it. */
+export type AttemptUpdate =
+  | { status: "ringing" }
+  | { status: "in-progress" }
+  | { status: FinalAttemptStatus; reason?: string };
+
+export interface OutboundProvider {
+  /** Stored with every attempt placed through it. */
+  readonly name: string;
+  /**
+   * Places a call and resolves once the provider has accepted it. Providers
+   * that learn the outcome in-process pass updates to `report`; the others
+   * deliver them later through the voice webhook.
+   */
+  dial(request: DialRequest, report: (update: AttemptUpdate) => void): Promise<{ providerCallId: string }>;
+}
@@ -0,0 +1,67 @@
+import type { VoiceWebhookMessage } from "@shared/schema";
+import type { AttemptUpdate, DialRequest, OutboundProvider } from "./types";
+
+const VAPI_API_URL = "https://api.vapi.ai";
+
+/**
+ * Places phone calls through Vapi's REST API from one of the account's
+ * numbers. Vapi reports progress to the voice webhook, see
+ * `attemptUpdateFromWebhook`.
+ */
+export class VapiOutboundProvider implements OutboundProvider {
+  readonly name = "vapi";
+
+  constructor(private privateKey: string, private phoneNumberId: string) {}
+
+  async dial({ phoneNumber, assistantId, variables }: DialRequest) {
+    const res = await fetch(`${VAPI_API_URL}/call`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.privateKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        assistantId,
+        phoneNumberId: this.phoneNumberId,
+        customer: { number: phoneNumber },
+        ...(variables && { assistantOverrides: { variableValues: variables } }),
+      }),
+    });
+    const body = await res.json().catch(() => null);
+    if (!res.ok || typeof body?.id !== "string") {
+      const message = Array.isArray(body?.message) ? body.message.join("; ") : body?.message;
+      throw new Error(`Vapi rejected the call (${res.status}): ${message ?? res.statusText}`);
+    }
+    return { providerCallId: body.id as string };
+  }
+}
+
+function outcomeFromEndedReason(endedReason: string | undefined): AttemptUpdate {
+  switch (endedReason) {
+    case "customer-did-not-answer":
+    case "voicemail":
+      return { status: "no-answer", reason: endedReason };
+    case "customer-busy":
+      return { status: "busy", reason: endedReason };
+    default:
+      // Vapi prefixes transport and model failures, e.g. "pipeline-error-openai-llm-failed"
+      return /error|failed/.test(endedReason ?? "")
+        ? { status: "failed", reason: endedReason }
+        : { status: "completed", reason: endedReason };
+  }
+}
+
+/** Reads an outbound attempt's progress out of a Vapi server event, if it carries any. */
+export function attemptUpdateFromWebhook(message: VoiceWebhookMessage): AttemptUpdate | null {
+  switch (message.type) {
+    case "status-update":
+      if (message.status === "ringing") return { status: "ringing" };
+      if (message.status === "in-progress") return { status: "in-progress" };
+      if (message.status === "ended") return outcomeFromEndedReason(message.endedReason);
+      return null;
+    case "end-of-call-report":
+      return outcomeFromEndedReason(message.endedReason);
+    default:
+      return null;
+  }
+}
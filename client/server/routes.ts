@@ -0,0 +1,436 @@
+import type { Express, Request, Response } from "express";
+import { createServer, type Server } from "http";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import {
+  CALL_TOKEN_HEADER,
+  type Call,
+  analyticsQuerySchema,
+  callListQuerySchema,
+  campaignListQuerySchema,
+  endCallSchema,
+  insertAssistantSchema,
+  insertAssistantVersionSchema,
+  insertCallEventSchema,
+  insertCallSchema,
+  insertCallTurnSchema,
+  insertCampaignSchema,
+  insertLeadSchema,
+  insertOutboundCallSchema,
+  insertTranscriptSegmentSchema,
+  leadListQuerySchema,
+  linkProviderCallSchema,
+  outboundCallListQuerySchema,
+  updateLeadSchema,
+  voiceWebhookSchema,
+  voiceWebhookTypes,
+} from "@shared/schema";
+import { storage } from "./storage";
+import { handle, parseBody, parseQuery } from "./http";
+import { requireAuth, setupAuth } from "./auth";
+import {
+  hasValidWebhookSecret,
+  mergePendingVoiceEvents,
+  receiveVoiceEvent,
+  webhookSecretConfigured,
+} from "./voice-webhooks";
+import { createAssistantProvider } from "./assistants";
+import { contactsFromRows, createOutboundProvider, startOutboundScheduler } from "./outbound";
+
+const TOP_END_REASONS = 8;
+
+async function findOutboundCall(req: Request, res: Response) {
+  const id = Number(req.params.id);
+  const call = Number.isInteger(id) ? await storage.getOutboundCall(id) : undefined;
+  if (!call) {
+    res.status(404).json({ message: "Outbound call not found" });
+  }
+  return call;
+}
+
+async function findCampaign(req: Request, res: Response) {
+  const id = Number(req.params.id);
+  const campaign = Number.isInteger(id) ? await storage.getCampaign(id) : undefined;
+  if (!campaign) {
+    res.status(404).json({ message: "Campaign not found" });
+  }
+  return campaign;
+}
+
+async function findAssistant(req: Request, res: Response) {
+  const id = Number(req.params.id);
+  const assistant = Number.isInteger(id) ? await storage.getAssistant(id) : undefined;
+  if (!assistant) {
+    res.status(404).json({ message: "Assistant not found" });
+  }
+  return assistant;
+}
+
+// Arrays are compared in order: reordering end-call phrases is a change too
+function sameConfig(a: object, b: object) {
+  return JSON.stringify(a, Object.keys(a).sort()) === JSON.stringify(b, Object.keys(b).sort());
+}
+
+async function findCall(req: Request, res: Response) {
+  const id = Number(req.params.id);
+  const call = Number.isInteger(id) ? await storage.getCall(id) : undefined;
+  if (!call) {
+    res.status(404).json({ message: "Call not found" });
+  }
+  return call;
+}
+
+// Public answers leave out the token hash
+function publicCall({ recorderTokenHash: _hash, ...call }: Call): Omit<Call, "recorderTokenHash"> {
+  return call;
+}
+
+function hashRecorderToken(token: string) {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Writes to a public call need the token its creator was given, so one
+// visitor cannot append to or end another's call by guessing its ID
+// Whether the request carries the token handed to the browser that created the call
+function hasCallToken(req: Request, call: Call) {
+  const supplied = req.get(CALL_TOKEN_HEADER);
+  const expected = call.recorderTokenHash;
+  return Boolean(
+    supplied &&
+    expected &&
+    timingSafeEqual(Buffer.from(hashRecorderToken(supplied)), Buffer.from(expected)),
+  );
+}
+
+async function findRecordedCall(req: Request, res: Response) {
+  const call = await findCall(req, res);
+  if (!call) return undefined;
+  if (!hasCallToken(req, call)) {
+    res.status(403).json({ message: "Missing or invalid call token" });
+    return undefined;
+  }
+  return call;
+}
+
+export async function registerRoutes(app: Express): Promise<Server> {
+  // Sets up /api/register, /api/login, /api/logout and /api/user
+  setupAuth(app);
+
+  // Call recording is public: the demo page posts here without a session
+  app.post("/api/calls", handle(async (req, res) => {
+    const body = parseBody(insertCallSchema, req, res);
+    if (!body) return;
+    const recorderToken = randomBytes(32).toString("base64url");
+    const call = await storage.createCall(body, hashRecorderToken(recorderToken));
+    res.status(201).json({ ...publicCall(call), recorderToken });
+  }));
+
+  app.post("/api/calls/:id/events", handle(async (req, res) => {
+    const body = parseBody(insertCallEventSchema, req, res);
+    if (!body) return;
+    const call = await findRecordedCall(req, res);
+    if (!call) return;
+    res.status(201).json(await storage.addCallEvent(call.id, body));
+  }));
+
+  app.post("/api/calls/:id/transcript", handle(async (req, res) => {
+    const body = parseBody(insertTranscriptSegmentSchema, req, res);
+    if (!body) return;
+    const call = await findRecordedCall(req, res);
+    if (!call) return;
+    res.status(201).json(await storage.addTranscriptSegment(call.id, body));
+  }));
+
+  app.post("/api/calls/:id/turns", handle(async (req, res) => {
+    const body = parseBody(insertCallTurnSchema, req, res);
+    if (!body) return;
+    const call = await findRecordedCall(req, res);
+    if (!call) return;
+    res.status(201).json(await storage.addCallTurn(call.id, body));
+  }));
+
+  // Links the provider's call ID so its webhook events can find this record
+  app.post("/api/calls/:id/provider", handle(async (req, res) => {
+    const body = parseBody(linkProviderCallSchema, req, res);
+    if (!body) return;
+    const call = await findRecordedCall(req, res);
+    if (!call) return;
+    if (call.providerCallId === body.providerCallId) {
+      res.json(publicCall(call));
+      return;
+    }
+    const owner = await storage.getCallByProviderCallId(body.providerCallId);
+    if (call.providerCallId || owner) {
+      res.status(409).json({ message: "Call is already linked to another provider call" });
+      return;
+    }
+    const linked = await storage.linkProviderCall(call.id, body.providerCallId);
+    if (linked) await mergePendingVoiceEvents(linked);
+    const updated = await storage.getCall(call.id);
+    res.json(updated && publicCall(updated));
+  }));
+
+  app.post("/api/calls/:id/end", handle(async (req, res) => {
+    const body = parseBody(endCallSchema, req, res);
+    if (!body) return;
+    const call = await findRecordedCall(req, res);
+    if (!call) return;
+    const ended = await storage.endCall(call.id, body);
+    res.json(ended && publicCall(ended));
+  }));
+
+  // Server events from the voice provider, authenticated by a shared secret
+  app.post("/api/webhooks/voice", handle(async (req, res) => {
+    if (!webhookSecretConfigured()) {
+      res.status(503).json({ message: "Voice webhooks are not configured" });
+      return;
+    }
+    if (!hasValidWebhookSecret(req)) {
+      res.status(401).json({ message: "Invalid webhook secret" });
+      return;
+    }
+    // The provider sends many more event types; acknowledge those unread
+    const type = req.body?.message?.type;
+    if (!voiceWebhookTypes.includes(type)) {
+      res.json({ status: "ignored" });
+      return;
+    }
+    const body = parseBody(voiceWebhookSchema, req, res);
+    if (!body) return;
+    res.json(await receiveVoiceEvent(body.message));
+  }));
+
+  // Call history is staff-only
+  app.get("/api/calls", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(callListQuerySchema, req, res);
+    if (!query) return;
+    const { items, total } = await storage.listCalls(query);
+    res.json({ items, total, page: query.page, pageSize: query.pageSize });
+  }));
+
+  app.get("/api/calls/:id", requireAuth, handle(async (req, res) => {
+    const call = await findCall(req, res);
+    if (!call) return;
+    res.json(await storage.getCallDetail(call.id));
+  }));
+
+  // Dashboard aggregates, computed in the database rather than the browser
+  app.get("/api/analytics/overview", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(analyticsQuerySchema, req, res);
+    if (!query) return;
+    res.json(await storage.getCallOverview(query));
+  }));
+
+  app.get("/api/analytics/daily", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(analyticsQuerySchema, req, res);
+    if (!query) return;
+    if (!(await storage.isKnownTimeZone(query.timeZone))) {
+      res.status(400).json({ message: `The database does not know the time zone ${query.timeZone}` });
+      return;
+    }
+    res.json(await storage.getDailyCallStats(query));
+  }));
+
+  app.get("/api/analytics/languages", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(analyticsQuerySchema, req, res);
+    if (!query) return;
+    res.json(await storage.getLanguageBreakdown(query));
+  }));
+
+  app.get("/api/analytics/end-reasons", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(analyticsQuerySchema, req, res);
+    if (!query) return;
+    res.json(await storage.getEndReasonBreakdown(query, TOP_END_REASONS));
+  }));
+
+  app.get("/api/analytics/assistants", requireAuth, handle(async (_req, res) => {
+    res.json(await storage.listAssistantUsage());
+  }));
+
+  // Leads come from the public demo page after a call; reviewing them is staff-only
+  app.post("/api/leads", handle(async (req, res) => {
+    const body = parseBody(insertLeadSchema, req, res);
+    if (!body) return;
+    if (body.callId != null) {
+      const call = await storage.getCall(body.callId);
+      if (!call) {
+        res.status(400).json({ message: "Call not found" });
+        return;
+      }
+      // Leads are public too; only the visitor who made the call can attach one to it
+      if (!hasCallToken(req, call)) {
+        res.status(403).json({ message: "Missing or invalid call token" });
+        return;
+      }
+    }
+    res.status(201).json(await storage.createLead(body));
+  }));
+
+  app.get("/api/leads", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(leadListQuerySchema, req, res);
+    if (!query) return;
+    const { items, total } = await storage.listLeads(query);
+    res.json({ items, total, page: query.page, pageSize: query.pageSize });
+  }));
+
+  app.patch("/api/leads/:id", requireAuth, handle(async (req, res) => {
+    const body = parseBody(updateLeadSchema, req, res);
+    if (!body) return;
+    const id = Number(req.params.id);
+    const lead = Number.isInteger(id) ? await storage.updateLeadStatus(id, body.status) : undefined;
+    if (!lead) {
+      res.status(404).json({ message: "Lead not found" });
+      return;
+    }
+    res.json(lead);
+  }));
+
+  // Outbound phone calls are scheduled by staff and dialed by a background job
+  const outboundProvider = createOutboundProvider();
+  startOutboundScheduler(outboundProvider);
+
+  app.get("/api/outbound-calls", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(outboundCallListQuerySchema, req, res);
+    if (!query) return;
+    const { items, total } = await storage.listOutboundCalls(query, null);
+    res.json({ items, total, page: query.page, pageSize: query.pageSize, provider: outboundProvider.name });
+  }));
+
+  app.post("/api/outbound-calls", requireAuth, handle(async (req, res) => {
+    const body = parseBody(insertOutboundCallSchema, req, res);
+    if (!body) return;
+    res.status(201).json(await storage.createOutboundCall(body, req.user?.id ?? null));
+  }));
+
+  app.post("/api/outbound-calls/:id/cancel", requireAuth, handle(async (req, res) => {
+    const call = await findOutboundCall(req, res);
+    if (!call) return;
+    if (call.status !== "scheduled") {
+      res.status(409).json({ message: `A ${call.status} call cannot be cancelled` });
+      return;
+    }
+    res.json(await storage.updateOutboundCall(call.id, { status: "cancelled" }));
+  }));
+
+  // Campaigns dial every contact of an imported list through the same scheduler
+  app.get("/api/campaigns", requireAuth, handle(async (req, res) => {
+    const query = parseQuery(campaignListQuerySchema, req, res);
+    if (!query) return;
+    const { items, total } = await storage.listCampaigns(query);
+    res.json({ items, total, page: query.page, pageSize: query.pageSize });
+  }));
+
+  app.post("/api/campaigns", requireAuth, handle(async (req, res) => {
+    const body = parseBody(insertCampaignSchema, req, res);
+    if (!body) return;
+    const { contacts, skipped } = contactsFromRows(body);
+    if (contacts.length === 0) {
+      res.status(400).json({ message: "No row has a usable phone number", skipped });
+      return;
+    }
+    const { rows, ...settings } = body;
+    const campaign = await storage.createCampaign(settings, contacts, req.user?.id ?? null);
+    res.status(201).json({ campaign, imported: contacts.length, skipped });
+  }));
+
+  app.get("/api/campaigns/:id", requireAuth, handle(async (req, res) => {
+    const campaign = await findCampaign(req, res);
+    if (!campaign) return;
+    res.json(campaign);
+  }));
+
+  app.get("/api/campaigns/:id/contacts", requireAuth, handle(async (req, res) => {
+    const campaign = await findCampaign(req, res);
+    if (!campaign) return;
+    const query = parseQuery(outboundCallListQuerySchema, req, res);
+    if (!query) return;
+    const { items, total } = await storage.listOutboundCalls(query, campaign.id);
+    res.json({ items, total, page: query.page, pageSize: query.pageSize, provider: outboundProvider.name });
+  }));
+
+  // Calls already dialing finish either way; pausing only holds back the rest
+  app.post("/api/campaigns/:id/pause", requireAuth, handle(async (req, res) => {
+    const campaign = await findCampaign(req, res);
+    if (!campaign) return;
+    const paused = await storage.updateCampaignStatus(campaign.id, "running", "paused");
+    if (!paused) {
+      res.status(409).json({ message: `A ${campaign.status} campaign cannot be paused` });
+      return;
+    }
+    res.json(paused);
+  }));
+
+  app.post("/api/campaigns/:id/resume", requireAuth, handle(async (req, res) => {
+    const campaign = await findCampaign(req, res);
+    if (!campaign) return;
+    const resumed = await storage.updateCampaignStatus(campaign.id, "paused", "running");
+    if (!resumed) {
+      res.status(409).json({ message: `A ${campaign.status} campaign cannot be resumed` });
+      return;
+    }
+    res.json(resumed);
+  }));
+
+  // Assistant configurations are versioned here and pushed to the voice provider
+  const assistantProvider = createAssistantProvider();
+
+  app.get("/api/assistants", requireAuth, handle(async (_req, res) => {
+    res.json(await storage.listAssistants());
+  }));
+
+  // Public, as the demo page offers published assistants next to the configured ones
+  app.get("/api/assistants/published", handle(async (_req, res) => {
+    res.json(await storage.listPublishedAssistants());
+  }));
+
+  app.post("/api/assistants", requireAuth, handle(async (req, res) => {
+    const body = parseBody(insertAssistantSchema, req, res);
+    if (!body) return;
+    res.status(201).json(await storage.createAssistant(body, req.user?.id ?? null));
+  }));
+
+  app.get("/api/assistants/:id", requireAuth, handle(async (req, res) => {
+    const assistant = await findAssistant(req, res);
+    if (!assistant) return;
+    res.json({ ...assistant, provider: assistantProvider.name });
+  }));
+
+  app.post("/api/assistants/:id/versions", requireAuth, handle(async (req, res) => {
+    const assistant = await findAssistant(req, res);
+    if (!assistant) return;
+    const body = parseBody(insertAssistantVersionSchema, req, res);
+    if (!body) return;
+    const [latest] = assistant.versions;
+    if (latest && sameConfig(latest.config, body.config)) {
+      res.status(409).json({ message: `Nothing changed since version ${latest.version}` });
+      return;
+    }
+    res.status(201).json(await storage.addAssistantVersion(assistant.id, body, req.user?.id ?? null));
+  }));
+
+  // Rolling back is publishing an older version; versions themselves never change
+  app.post("/api/assistants/:id/versions/:version/publish", requireAuth, handle(async (req, res) => {
+    const assistant = await findAssistant(req, res);
+    if (!assistant) return;
+    const version = assistant.versions.find((entry) => entry.version === Number(req.params.version));
+    if (!version) {
+      res.status(404).json({ message: "Version not found" });
+      return;
+    }
+    let pushed: { providerAssistantId: string };
+    try {
+      pushed = await assistantProvider.push({
+        name: assistant.name,
+        providerAssistantId: assistant.providerAssistantId,
+        config: version.config,
+      });
+    } catch (error) {
+      res.status(502).json({ message: error instanceof Error ? error.message : "The provider rejected the assistant" });
+      return;
+    }
+    await storage.markAssistantPublished(assistant.id, version.version, pushed.providerAssistantId);
+    res.json({ ...(await storage.getAssistant(assistant.id)), provider: assistantProvider.name });
+  }));
+
+  const httpServer = createServer(app);
+  return httpServer;
+}
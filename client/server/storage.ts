@@ -0,0 +1,810 @@
+import { and, asc, count, desc, eq, getTableColumns, gte, inArray, isNotNull, isNull, lt, lte, notInArray, sql } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import {
+  users,
+  calls,
+  callEvents,
+  transcriptSegments,
+  callTurns,
+  leads,
+  finalAttemptStatuses,
+  webhookEvents,
+  outboundCalls,
+  outboundCallAttempts,
+  campaigns,
+  outboundCallStatuses,
+  assistants,
+  assistantVersions,
+  type AnalyticsQuery,
+  type Assistant,
+  type AssistantConfig,
+  type AssistantDetail,
+  type AssistantSummary,
+  type AssistantVersion,
+  type PublishedAssistant,
+  type AssistantUsage,
+  type Call,
+  type CallBreakdown,
+  type CallDetail,
+  type CallEvent,
+  type CallListQuery,
+  type CallSummary,
+  type CallOverview,
+  type CallTurn,
+  type Campaign,
+  type CampaignListQuery,
+  type CampaignProgress,
+  type CampaignStatus,
+  type CampaignWithProgress,
+  type InsertCampaign,
+  type DailyCallStats,
+  type EndCall,
+  type InsertUser,
+  type InsertCall,
+  type InsertCallEvent,
+  type InsertCallTurn,
+  type InsertLead,
+  type InsertOutboundCall,
+  type InsertTranscriptSegment,
+  type InsertWebhookEvent,
+  type Lead,
+  type LeadListQuery,
+  type LeadStatus,
+  type OutboundCall,
+  type OutboundCallAttempt,
+  type OutboundCallListQuery,
+  type OutboundCallStatus,
+  type OutboundCallWithAttempts,
+  type TranscriptSegment,
+  type User,
+  type WebhookEvent,
+} from "@shared/schema";
+import { summarizeLatency } from "@shared/latency";
+import { db, pool, type Executor } from "./db";
+
+export type { Executor };
+
+const PostgresSessionStore = connectPg(session);
+
+export interface IStorage {
+  sessionStore: session.Store;
+  getUser(id: number): Promise<User | undefined>;
+  getUserByUsername(username: string): Promise<User | undefined>;
+  countUsers(): Promise<number>;
+  createUser(user: InsertUser): Promise<User | undefined>;
+  createFirstUser(user: InsertUser): Promise<User | undefined>;
+  createCall(call: InsertCall, recorderTokenHash: string): Promise<Call>;
+  getCall(id: number, executor?: Executor): Promise<Call | undefined>;
+  listCalls(query: CallListQuery): Promise<{ items: CallSummary[]; total: number }>;
+  getCallDetail(id: number): Promise<CallDetail | undefined>;
+  endCall(id: number, end: EndCall, executor?: Executor): Promise<Call | undefined>;
+  addCallEvent(callId: number, event: InsertCallEvent, executor?: Executor): Promise<CallEvent>;
+  addTranscriptSegment(
+    callId: number,
+    segment: InsertTranscriptSegment,
+    executor?: Executor,
+  ): Promise<TranscriptSegment>;
+  addCallTurn(callId: number, turn: InsertCallTurn): Promise<CallTurn>;
+  getCallByProviderCallId(providerCallId: string): Promise<Call | undefined>;
+  linkProviderCall(id: number, providerCallId: string): Promise<Call | undefined>;
+  updateCallReport(id: number, report: CallReport, executor?: Executor): Promise<Call | undefined>;
+  countTranscriptSegments(callId: number, executor?: Executor): Promise<number>;
+  addWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined>;
+  getWebhookEvent(eventId: string): Promise<WebhookEvent | undefined>;
+  listPendingWebhookEvents(providerCallId: string): Promise<WebhookEvent[]>;
+  mergeWebhookEventOnce(
+    id: number,
+    callId: number | null,
+    merge: (tx: Executor) => Promise<void>,
+  ): Promise<boolean>;
+  getCallOverview(query: AnalyticsQuery): Promise<CallOverview>;
+  getDailyCallStats(query: AnalyticsQuery): Promise<DailyCallStats[]>;
+  isKnownTimeZone(name: string): Promise<boolean>;
+  getLanguageBreakdown(query: AnalyticsQuery): Promise<CallBreakdown[]>;
+  getEndReasonBreakdown(query: AnalyticsQuery, limit: number): Promise<CallBreakdown[]>;
+  listAssistantUsage(): Promise<AssistantUsage[]>;
+  createLead(lead: InsertLead): Promise<Lead>;
+  listLeads(query: LeadListQuery): Promise<{ items: Lead[]; total: number }>;
+  updateLeadStatus(id: number, status: LeadStatus): Promise<Lead | undefined>;
+  createOutboundCall(call: InsertOutboundCall, createdBy: number | null): Promise<OutboundCall>;
+  getOutboundCall(id: number, executor?: Executor): Promise<OutboundCall | undefined>;
+  listOutboundCalls(
+    query: OutboundCallListQuery,
+    campaignId: number | null,
+  ): Promise<{ items: OutboundCallWithAttempts[]; total: number }>;
+  updateOutboundCall(id: number, update: OutboundCallUpdate, executor?: Executor): Promise<OutboundCall | undefined>;
+  claimDueOutboundCalls(now: Date, limit: number, campaignId: number | null): Promise<OutboundCall[]>;
+  createOutboundAttempt(outboundCallId: number, provider: string): Promise<OutboundCallAttempt>;
+  getOutboundAttemptByProviderCallId(providerCallId: string): Promise<OutboundCallAttempt | undefined>;
+  updateOutboundAttempt(
+    id: number,
+    update: OutboundAttemptUpdate,
+    executor?: Executor,
+  ): Promise<OutboundCallAttempt | undefined>;
+  listStaleOutboundAttempts(startedBefore: Date): Promise<OutboundCallAttempt[]>;
+  createCampaign(campaign: CampaignSettings, contacts: CampaignContact[], createdBy: number | null): Promise<Campaign>;
+  getCampaign(id: number): Promise<CampaignWithProgress | undefined>;
+  listCampaigns(query: CampaignListQuery): Promise<{ items: CampaignWithProgress[]; total: number }>;
+  listCampaignsByStatus(status: CampaignStatus): Promise<CampaignWithProgress[]>;
+  updateCampaignStatus(id: number, from: CampaignStatus, to: CampaignStatus): Promise<Campaign | undefined>;
+  createAssistant(assistant: NewAssistant, createdBy: number | null): Promise<AssistantDetail>;
+  listAssistants(): Promise<AssistantSummary[]>;
+  listPublishedAssistants(): Promise<PublishedAssistant[]>;
+  getAssistant(id: number): Promise<AssistantDetail | undefined>;
+  addAssistantVersion(assistantId: number, version: NewAssistantVersion, createdBy: number | null): Promise<AssistantVersion>;
+  markAssistantPublished(id: number, version: number, providerAssistantId: string): Promise<Assistant | undefined>;
+}
+
+export type CallReport = Partial<Pick<Call, "summary" | "costUsd" | "recordingUrl">>;
+
+export type OutboundCallUpdate = Partial<Pick<OutboundCall, "status" | "scheduledFor">>;
+export type OutboundAttemptUpdate = Partial<
+  Pick<OutboundCallAttempt, "status" | "providerCallId" | "reason" | "answeredAt" | "endedAt">
+>;
+
+export interface NewAssistantVersion {
+  config: AssistantConfig;
+  note?: string;
+}
+
+export interface NewAssistant extends NewAssistantVersion {
+  name: string;
+  providerAssistantId?: string;
+}
+
+export type CampaignSettings = Omit<InsertCampaign, "rows">;
+/** One imported CSV row, already mapped and validated. */
+export interface CampaignContact {
+  phoneNumber: string;
+  variables: Record<string, string>;
+}
+
+// Stays well under Postgres' limit of 65535 parameters per statement
+const CONTACT_INSERT_BATCH = 1000;
+
+function emptyProgress(): CampaignProgress {
+  return Object.fromEntries(outboundCallStatuses.map((status) => [status, 0])) as CampaignProgress;
+}
+
+// Aggregates shared by the overall and per-day analytics
+const overviewColumns = {
+  calls: sql<number>`count(*)::int`,
+  ended: sql<number>`(count(*) filter (where ${calls.status} = 'ended'))::int`,
+  failed: sql<number>`(count(*) filter (where ${calls.status} = 'failed'))::int`,
+  avgDurationSeconds: sql<number | null>`round(avg(${calls.durationSeconds}))::int`,
+  p95DurationSeconds: sql<number | null>`percentile_disc(0.95) within group (order by ${calls.durationSeconds})`,
+};
+
+function analyticsWhere(query: AnalyticsQuery) {
+  return and(
+    query.from ? gte(calls.startedAt, query.from) : undefined,
+    query.to ? lt(calls.startedAt, query.to) : undefined,
+    query.assistantId ? eq(calls.assistantId, query.assistantId) : undefined,
+  );
+}
+
+export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+
+  constructor() {
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async countUsers(): Promise<number> {
+    const [{ value }] = await db.select({ value: count() }).from(users);
+    return value;
+  }
+
+  // Returns undefined when the username is taken
+  async createUser(user: InsertUser): Promise<User | undefined> {
+    const [created] = await db
+      .insert(users)
+      .values(user)
+      .onConflictDoNothing({ target: users.username })
+      .returning();
+    return created;
+  }
+
+  // The lock makes concurrent sign-ups take turns, so only one of them can
+  // find the table empty. Returns undefined when an account already exists.
+  async createFirstUser(user: InsertUser): Promise<User | undefined> {
+    return db.transaction(async (tx) => {
+      await tx.execute(sql`select pg_advisory_xact_lock(hashtext('users:first'))`);
+      const [{ value }] = await tx.select({ value: count() }).from(users);
+      if (value > 0) return undefined;
+      const [created] = await tx.insert(users).values(user).returning();
+      return created;
+    });
+  }
+
+  async createCall(call: InsertCall, recorderTokenHash: string): Promise<Call> {
+    const [created] = await db.insert(calls).values({ ...call, recorderTokenHash }).returning();
+    return created;
+  }
+
+  async getCall(id: number, executor: Executor = db): Promise<Call | undefined> {
+    const [call] = await executor.select().from(calls).where(eq(calls.id, id));
+    return call;
+  }
+
+  async listCalls(query: CallListQuery): Promise<{ items: CallSummary[]; total: number }> {
+    const where = and(
+      query.from ? gte(calls.startedAt, query.from) : undefined,
+      query.to ? lt(calls.startedAt, query.to) : undefined,
+      query.status ? eq(calls.status, query.status) : undefined,
+    );
+    const errorCounts = db
+      .select({
+        callId: callEvents.callId,
+        errorCount: sql<number>`count(*)::int`.as("error_count"),
+      })
+      .from(callEvents)
+      .where(eq(callEvents.type, "error"))
+      .groupBy(callEvents.callId)
+      .as("error_counts");
+
+    const items = await db
+      .select({
+        ...getTableColumns(calls),
+        errorCount: sql<number>`coalesce(${errorCounts.errorCount}, 0)`,
+      })
+      .from(calls)
+      .leftJoin(errorCounts, eq(errorCounts.callId, calls.id))
+      .where(where)
+      .orderBy(desc(calls.startedAt))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ value: total }] = await db.select({ value: count() }).from(calls).where(where);
+
+    return { items, total };
+  }
+
+  async getCallDetail(id: number): Promise<CallDetail | undefined> {
+    const call = await this.getCall(id);
+    if (!call) return undefined;
+
+    const [events, transcript, turns] = await Promise.all([
+      db.select().from(callEvents).where(eq(callEvents.callId, id)).orderBy(asc(callEvents.occurredAt), asc(callEvents.id)),
+      db.select().from(transcriptSegments).where(eq(transcriptSegments.callId, id)).orderBy(asc(transcriptSegments.spokenAt), asc(transcriptSegments.id)),
+      db.select().from(callTurns).where(eq(callTurns.callId, id)).orderBy(asc(callTurns.turnIndex)),
+    ]);
+    return { call, events, transcript, turns };
+  }
+
+  async endCall(id: number, end: EndCall, executor: Executor = db): Promise<Call | undefined> {
+    const call = await this.getCall(id, executor);
+    if (!call) return undefined;
+    // Ending is idempotent; the first reported outcome wins
+    if (call.status !== "in-progress") return call;
+
+    const endedAt = new Date();
+    const turns = await executor
+      .select({ latencyMs: callTurns.latencyMs })
+      .from(callTurns)
+      .where(eq(callTurns.callId, id));
+    const latency = summarizeLatency(turns.map((turn) => turn.latencyMs));
+    const [updated] = await executor
+      .update(calls)
+      .set({
+        status: end.status,
+        endReason: end.endReason,
+        endedAt,
+        durationSeconds: Math.round((endedAt.getTime() - call.startedAt.getTime()) / 1000),
+        latencyMedianMs: latency?.medianMs ?? null,
+        latencyP95Ms: latency?.p95Ms ?? null,
+      })
+      .where(and(eq(calls.id, id), eq(calls.status, "in-progress")))
+      .returning();
+    // Another end got in first: keep its outcome and answer with it
+    return updated ?? this.getCall(id, executor);
+  }
+
+  async addCallEvent(callId: number, event: InsertCallEvent, executor: Executor = db): Promise<CallEvent> {
+    const [created] = await executor
+      .insert(callEvents)
+      .values({ ...event, callId })
+      .returning();
+    return created;
+  }
+
+  async addTranscriptSegment(
+    callId: number,
+    segment: InsertTranscriptSegment,
+    executor: Executor = db,
+  ): Promise<TranscriptSegment> {
+    const [created] = await executor
+      .insert(transcriptSegments)
+      .values({ ...segment, callId })
+      .returning();
+    return created;
+  }
+
+  async addCallTurn(callId: number, turn: InsertCallTurn): Promise<CallTurn> {
+    const [created] = await db
+      .insert(callTurns)
+      .values({ ...turn, callId })
+      .returning();
+    return created;
+  }
+
+  async getCallByProviderCallId(providerCallId: string): Promise<Call | undefined> {
+    const [call] = await db.select().from(calls).where(eq(calls.providerCallId, providerCallId));
+    return call;
+  }
+
+  async linkProviderCall(id: number, providerCallId: string): Promise<Call | undefined> {
+    const [updated] = await db
+      .update(calls)
+      .set({ providerCallId })
+      .where(eq(calls.id, id))
+      .returning();
+    return updated;
+  }
+
+  async updateCallReport(id: number, report: CallReport, executor: Executor = db): Promise<Call | undefined> {
+    const [updated] = await executor
+      .update(calls)
+      .set(report)
+      .where(eq(calls.id, id))
+      .returning();
+    return updated;
+  }
+
+  async countTranscriptSegments(callId: number, executor: Executor = db): Promise<number> {
+    const [{ value }] = await executor
+      .select({ value: count() })
+      .from(transcriptSegments)
+      .where(eq(transcriptSegments.callId, callId));
+    return value;
+  }
+
+  // Returns undefined when the event ID was already recorded
+  async addWebhookEvent(event: InsertWebhookEvent): Promise<WebhookEvent | undefined> {
+    const [created] = await db
+      .insert(webhookEvents)
+      .values(event)
+      .onConflictDoNothing({ target: webhookEvents.eventId })
+      .returning();
+    return created;
+  }
+
+  async listPendingWebhookEvents(providerCallId: string): Promise<WebhookEvent[]> {
+    return db
+      .select()
+      .from(webhookEvents)
+      .where(and(eq(webhookEvents.providerCallId, providerCallId), isNull(webhookEvents.processedAt)))
+      .orderBy(asc(webhookEvents.receivedAt), asc(webhookEvents.id));
+  }
+
+  async getWebhookEvent(eventId: string): Promise<WebhookEvent | undefined> {
+    const [event] = await db.select().from(webhookEvents).where(eq(webhookEvents.eventId, eventId));
+    return event;
+  }
+
+  // The row stays locked while `merge` runs, so a racing request skips the
+  // event. `merge` writes through `tx`: its writes and the processed mark
+  // commit together, and a failed merge rolls back whole for the provider's
+  // redelivery. Resolves false when nothing was merged.
+  async mergeWebhookEventOnce(
+    id: number,
+    callId: number | null,
+    merge: (tx: Executor) => Promise<void>,
+  ): Promise<boolean> {
+    return db.transaction(async (tx) => {
+      const [unprocessed] = await tx
+        .select({ id: webhookEvents.id })
+        .from(webhookEvents)
+        .where(and(eq(webhookEvents.id, id), isNull(webhookEvents.processedAt)))
+        .for("update", { skipLocked: true });
+      if (!unprocessed) return false;
+
+      await merge(tx);
+      await tx.update(webhookEvents).set({ callId, processedAt: new Date() }).where(eq(webhookEvents.id, id));
+      return true;
+    });
+  }
+
+  async getCallOverview(query: AnalyticsQuery): Promise<CallOverview> {
+    const [overview] = await db.select(overviewColumns).from(calls).where(analyticsWhere(query));
+    return overview;
+  }
+
+  async getDailyCallStats(query: AnalyticsQuery): Promise<DailyCallStats[]> {
+    // The zone is a bound parameter, so Postgres cannot match a repeated
+    // expression in GROUP BY to the selected one; group by position instead
+    return db
+      .select({
+        day: sql<string>`to_char(${calls.startedAt} at time zone ${query.timeZone}, 'YYYY-MM-DD')`,
+        ...overviewColumns,
+      })
+      .from(calls)
+      .where(analyticsWhere(query))
+      .groupBy(sql`1`)
+      .orderBy(sql`1`);
+  }
+
+  // Postgres ships its own zone list, which need not match the browser's Intl data
+  async isKnownTimeZone(name: string): Promise<boolean> {
+    const result = await db.execute(sql`select 1 from pg_timezone_names where name = ${name}`);
+    return result.rows.length > 0;
+  }
+
+  async getLanguageBreakdown(query: AnalyticsQuery): Promise<CallBreakdown[]> {
+    return db
+      .select({ value: calls.language, calls: sql<number>`count(*)::int` })
+      .from(calls)
+      .where(analyticsWhere(query))
+      .groupBy(calls.language)
+      .orderBy(desc(sql`count(*)`), asc(calls.language));
+  }
+
+  async getEndReasonBreakdown(query: AnalyticsQuery, limit: number): Promise<CallBreakdown[]> {
+    return db
+      .select({ value: calls.endReason, calls: sql<number>`count(*)::int` })
+      .from(calls)
+      .where(analyticsWhere(query))
+      .groupBy(calls.endReason)
+      .orderBy(desc(sql`count(*)`), asc(calls.endReason))
+      .limit(limit);
+  }
+
+  // Not narrowed by any filter, so the assistant picker keeps every option
+  async listAssistantUsage(): Promise<AssistantUsage[]> {
+    return db
+      .select({ assistantId: calls.assistantId, calls: sql<number>`count(*)::int` })
+      .from(calls)
+      .groupBy(calls.assistantId)
+      .orderBy(desc(sql`count(*)`), asc(calls.assistantId));
+  }
+
+  async createLead(lead: InsertLead): Promise<Lead> {
+    const [created] = await db
+      .insert(leads)
+      .values({
+        ...lead,
+        company: lead.company || null,
+        phone: lead.phone || null,
+        interest: lead.interest || null,
+      })
+      .returning();
+    return created;
+  }
+
+  async listLeads(query: LeadListQuery): Promise<{ items: Lead[]; total: number }> {
+    const where = query.status ? eq(leads.status, query.status) : undefined;
+    const items = await db
+      .select()
+      .from(leads)
+      .where(where)
+      .orderBy(desc(leads.createdAt), desc(leads.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ value: total }] = await db.select({ value: count() }).from(leads).where(where);
+
+    return { items, total };
+  }
+
+  async updateLeadStatus(id: number, status: LeadStatus): Promise<Lead | undefined> {
+    const [updated] = await db
+      .update(leads)
+      .set({ status, updatedAt: new Date() })
+      .where(eq(leads.id, id))
+      .returning();
+    return updated;
+  }
+
+  async createOutboundCall(call: InsertOutboundCall, createdBy: number | null): Promise<OutboundCall> {
+    const [created] = await db
+      .insert(outboundCalls)
+      .values({ ...call, createdBy })
+      .returning();
+    return created;
+  }
+
+  async getOutboundCall(id: number, executor: Executor = db): Promise<OutboundCall | undefined> {
+    const [call] = await executor.select().from(outboundCalls).where(eq(outboundCalls.id, id));
+    return call;
+  }
+
+  // A campaign's contacts stay in import order; single calls show the latest first
+  async listOutboundCalls(
+    query: OutboundCallListQuery,
+    campaignId: number | null,
+  ): Promise<{ items: OutboundCallWithAttempts[]; total: number }> {
+    const where = and(
+      campaignId === null ? isNull(outboundCalls.campaignId) : eq(outboundCalls.campaignId, campaignId),
+      query.status ? eq(outboundCalls.status, query.status) : undefined,
+    );
+    const rows = await db
+      .select()
+      .from(outboundCalls)
+      .where(where)
+      .orderBy(...(campaignId === null
+        ? [desc(outboundCalls.scheduledFor), desc(outboundCalls.id)]
+        : [asc(outboundCalls.id)]))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ value: total }] = await db.select({ value: count() }).from(outboundCalls).where(where);
+
+    const attempts = rows.length > 0
+      ? await db
+        .select()
+        .from(outboundCallAttempts)
+        .where(inArray(outboundCallAttempts.outboundCallId, rows.map((row) => row.id)))
+        .orderBy(asc(outboundCallAttempts.attemptNumber))
+      : [];
+    const items = rows.map((row) => ({
+      ...row,
+      attempts: attempts.filter((attempt) => attempt.outboundCallId === row.id),
+    }));
+    return { items, total };
+  }
+
+  async updateOutboundCall(
+    id: number,
+    update: OutboundCallUpdate,
+    executor: Executor = db,
+  ): Promise<OutboundCall | undefined> {
+    const [updated] = await executor
+      .update(outboundCalls)
+      .set(update)
+      .where(eq(outboundCalls.id, id))
+      .returning();
+    return updated;
+  }
+
+  // SKIP LOCKED keeps two server instances from dialing the same call
+  async claimDueOutboundCalls(now: Date, limit: number, campaignId: number | null): Promise<OutboundCall[]> {
+    const due = db
+      .select({ id: outboundCalls.id })
+      .from(outboundCalls)
+      .where(and(
+        campaignId === null ? isNull(outboundCalls.campaignId) : eq(outboundCalls.campaignId, campaignId),
+        eq(outboundCalls.status, "scheduled"),
+        lte(outboundCalls.scheduledFor, now),
+      ))
+      .orderBy(asc(outboundCalls.scheduledFor), asc(outboundCalls.id))
+      .limit(limit)
+      .for("update", { skipLocked: true });
+    return db
+      .update(outboundCalls)
+      .set({ status: "dialing" satisfies OutboundCallStatus })
+      .where(inArray(outboundCalls.id, due))
+      .returning();
+  }
+
+  async createOutboundAttempt(outboundCallId: number, provider: string): Promise<OutboundCallAttempt> {
+    const [{ value: previous }] = await db
+      .select({ value: count() })
+      .from(outboundCallAttempts)
+      .where(eq(outboundCallAttempts.outboundCallId, outboundCallId));
+    const [created] = await db
+      .insert(outboundCallAttempts)
+      .values({ outboundCallId, provider, attemptNumber: previous + 1 })
+      .returning();
+    return created;
+  }
+
+  async getOutboundAttemptByProviderCallId(providerCallId: string): Promise<OutboundCallAttempt | undefined> {
+    const [attempt] = await db
+      .select()
+      .from(outboundCallAttempts)
+      .where(eq(outboundCallAttempts.providerCallId, providerCallId));
+    return attempt;
+  }
+
+  // A finished attempt is never reopened, whatever order updates arrive in
+  async updateOutboundAttempt(
+    id: number,
+    update: OutboundAttemptUpdate,
+    executor: Executor = db,
+  ): Promise<OutboundCallAttempt | undefined> {
+    const [updated] = await executor
+      .update(outboundCallAttempts)
+      .set(update)
+      .where(and(
+        eq(outboundCallAttempts.id, id),
+        notInArray(outboundCallAttempts.status, finalAttemptStatuses),
+      ))
+      .returning();
+    return updated;
+  }
+
+  async listStaleOutboundAttempts(startedBefore: Date): Promise<OutboundCallAttempt[]> {
+    return db
+      .select()
+      .from(outboundCallAttempts)
+      .where(and(
+        notInArray(outboundCallAttempts.status, finalAttemptStatuses),
+        lt(outboundCallAttempts.startedAt, startedBefore),
+      ));
+  }
+
+  // Contacts go in with the campaign or not at all
+  async createCampaign(
+    campaign: CampaignSettings,
+    contacts: CampaignContact[],
+    createdBy: number | null,
+  ): Promise<Campaign> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(campaigns)
+        .values({ ...campaign, createdBy })
+        .returning();
+      const scheduledFor = new Date();
+      for (let start = 0; start < contacts.length; start += CONTACT_INSERT_BATCH) {
+        await tx.insert(outboundCalls).values(
+          contacts.slice(start, start + CONTACT_INSERT_BATCH).map((contact) => ({
+            campaignId: created.id,
+            phoneNumber: contact.phoneNumber,
+            variables: contact.variables,
+            assistantId: created.assistantId,
+            scheduledFor,
+            maxAttempts: created.maxAttempts,
+            retryDelaySeconds: created.retryDelaySeconds,
+            createdBy,
+          })),
+        );
+      }
+      return created;
+    });
+  }
+
+  async getCampaign(id: number): Promise<CampaignWithProgress | undefined> {
+    const rows = await db.select().from(campaigns).where(eq(campaigns.id, id));
+    const [campaign] = await this.withProgress(rows);
+    return campaign;
+  }
+
+  async listCampaigns(query: CampaignListQuery): Promise<{ items: CampaignWithProgress[]; total: number }> {
+    const where = query.status ? eq(campaigns.status, query.status) : undefined;
+    const rows = await db
+      .select()
+      .from(campaigns)
+      .where(where)
+      .orderBy(desc(campaigns.createdAt), desc(campaigns.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    const [{ value: total }] = await db.select({ value: count() }).from(campaigns).where(where);
+    return { items: await this.withProgress(rows), total };
+  }
+
+  async listCampaignsByStatus(status: CampaignStatus): Promise<CampaignWithProgress[]> {
+    const rows = await db
+      .select()
+      .from(campaigns)
+      .where(eq(campaigns.status, status))
+      .orderBy(asc(campaigns.id));
+    return this.withProgress(rows);
+  }
+
+  // Conditional, so a pause and the scheduler completing the campaign cannot both win
+  async updateCampaignStatus(id: number, from: CampaignStatus, to: CampaignStatus): Promise<Campaign | undefined> {
+    const [updated] = await db
+      .update(campaigns)
+      .set({ status: to, updatedAt: new Date() })
+      .where(and(eq(campaigns.id, id), eq(campaigns.status, from)))
+      .returning();
+    return updated;
+  }
+
+  private async withProgress(rows: Campaign[]): Promise<CampaignWithProgress[]> {
+    const counts = rows.length > 0
+      ? await db
+        .select({ campaignId: outboundCalls.campaignId, status: outboundCalls.status, value: count() })
+        .from(outboundCalls)
+        .where(inArray(outboundCalls.campaignId, rows.map((row) => row.id)))
+        .groupBy(outboundCalls.campaignId, outboundCalls.status)
+      : [];
+    return rows.map((row) => {
+      const progress = emptyProgress();
+      let contacts = 0;
+      for (const entry of counts) {
+        if (entry.campaignId !== row.id) continue;
+        progress[entry.status] = entry.value;
+        contacts += entry.value;
+      }
+      return { ...row, progress, contacts };
+    });
+  }
+
+  // The first version is saved with the assistant, so an assistant always has one
+  async createAssistant(assistant: NewAssistant, createdBy: number | null): Promise<AssistantDetail> {
+    return db.transaction(async (tx) => {
+      const [created] = await tx
+        .insert(assistants)
+        .values({ name: assistant.name, providerAssistantId: assistant.providerAssistantId || null, createdBy })
+        .returning();
+      const [version] = await tx
+        .insert(assistantVersions)
+        .values({ assistantId: created.id, version: 1, config: assistant.config, note: assistant.note || null, createdBy })
+        .returning();
+      return { ...created, versions: [version] };
+    });
+  }
+
+  async listAssistants(): Promise<AssistantSummary[]> {
+    return db
+      .select({
+        ...getTableColumns(assistants),
+        latestVersion: sql<number>`max(${assistantVersions.version})`.mapWith(Number),
+      })
+      .from(assistants)
+      .innerJoin(assistantVersions, eq(assistantVersions.assistantId, assistants.id))
+      .groupBy(assistants.id)
+      .orderBy(asc(assistants.name), asc(assistants.id));
+  }
+
+  // Publishing always sets the provider's ID, so published rows have one
+  async listPublishedAssistants(): Promise<PublishedAssistant[]> {
+    return db
+      .select({
+        id: assistants.id,
+        name: assistants.name,
+        providerAssistantId: sql<string>`${assistants.providerAssistantId}`,
+        language: sql<string>`${assistantVersions.config}->>'language'`,
+      })
+      .from(assistants)
+      .innerJoin(
+        assistantVersions,
+        and(eq(assistantVersions.assistantId, assistants.id), eq(assistantVersions.version, assistants.publishedVersion)),
+      )
+      .where(isNotNull(assistants.providerAssistantId))
+      .orderBy(asc(assistants.name), asc(assistants.id));
+  }
+
+  async getAssistant(id: number): Promise<AssistantDetail | undefined> {
+    const [assistant] = await db.select().from(assistants).where(eq(assistants.id, id));
+    if (!assistant) return undefined;
+    const versions = await db
+      .select()
+      .from(assistantVersions)
+      .where(eq(assistantVersions.assistantId, id))
+      .orderBy(desc(assistantVersions.version));
+    return { ...assistant, versions };
+  }
+
+  // Locking the assistant row numbers concurrent saves one after the other
+  async addAssistantVersion(
+    assistantId: number,
+    version: NewAssistantVersion,
+    createdBy: number | null,
+  ): Promise<AssistantVersion> {
+    return db.transaction(async (tx) => {
+      await tx.select({ id: assistants.id }).from(assistants).where(eq(assistants.id, assistantId)).for("update");
+      const [{ value: latest }] = await tx
+        .select({ value: sql<number>`coalesce(max(${assistantVersions.version}), 0)`.mapWith(Number) })
+        .from(assistantVersions)
+        .where(eq(assistantVersions.assistantId, assistantId));
+      const [created] = await tx
+        .insert(assistantVersions)
+        .values({ assistantId, version: latest + 1, config: version.config, note: version.note || null, createdBy })
+        .returning();
+      await tx.update(assistants).set({ updatedAt: new Date() }).where(eq(assistants.id, assistantId));
+      return created;
+    });
+  }
+
+  async markAssistantPublished(id: number, version: number, providerAssistantId: string): Promise<Assistant | undefined> {
+    const now = new Date();
+    const [updated] = await db
+      .update(assistants)
+      .set({ publishedVersion: version, publishedAt: now, providerAssistantId, updatedAt: now })
+      .where(eq(assistants.id, id))
+      .returning();
+    return updated;
+  }
+}
+
+export const storage = new DatabaseStorage();
@@ -0,0 +1,248 @@
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  voiceWebhookSchema,
+  type Call,
+  type EndCall,
+  type InsertCallEvent,
+  type InsertTranscriptSegment,
+  type InsertWebhookEvent,
+  type VoiceWebhookMessage,
+  type WebhookEvent,
+} from "@shared/schema";
+import type { CallReport, Executor } from "./storage";
+import { mergePendingVoiceEvents, receiveVoiceEvent } from "./voice-webhooks";
+
+/** Stands in for the transaction `mergeWebhookEventOnce` hands to a merge. */
+const mergeTx = {} as Executor;
+
+/**
+ * Just enough of the storage for the webhook receiver, kept in memory. A merge
+ * behaves like the database transaction: its writes must go through the
+ * transaction, and they are undone when it fails.
+ */
+class MemoryStorage {
+  calls: Call[] = [];
+  webhookEvents: WebhookEvent[] = [];
+  callEvents: (InsertCallEvent & { callId: number })[] = [];
+  transcript: (InsertTranscriptSegment & { callId: number })[] = [];
+  private merging = false;
+
+  private write(executor: Executor | undefined) {
+    if (this.merging && executor !== mergeTx) throw new Error("Write outside the merge transaction");
+  }
+
+  createCall(providerCallId: string | null): Call {
+    const call: Call = {
+      id: this.calls.length + 1,
+      assistantId: "fixture-assistant",
+      engine: "vapi",
+      status: "in-progress",
+      startedAt: new Date(1760889600000),
+      endedAt: null,
+      durationSeconds: null,
+      endReason: null,
+      language: "EN",
+      callerContext: null,
+      latencyMedianMs: null,
+      latencyP95Ms: null,
+      providerCallId,
+      summary: null,
+      costUsd: null,
+      recordingUrl: null,
+      recorderTokenHash: null,
+    };
+    this.calls.push(call);
+    return call;
+  }
+
+  async addWebhookEvent(event: InsertWebhookEvent) {
+    if (this.webhookEvents.some((existing) => existing.eventId === event.eventId)) return undefined;
+    const created: WebhookEvent = {
+      id: this.webhookEvents.length + 1,
+      eventId: event.eventId,
+      type: event.type,
+      providerCallId: event.providerCallId,
+      callId: null,
+      payload: event.payload,
+      receivedAt: new Date(),
+      processedAt: null,
+    };
+    this.webhookEvents.push(created);
+    return created;
+  }
+
+  async getWebhookEvent(eventId: string) {
+    return this.webhookEvents.find((event) => event.eventId === eventId);
+  }
+
+  async listPendingWebhookEvents(providerCallId: string) {
+    return this.webhookEvents.filter((event) => event.providerCallId === providerCallId && !event.processedAt);
+  }
+
+  async mergeWebhookEventOnce(id: number, callId: number | null, merge: (tx: Executor) => Promise<void>) {
+    const event = this.webhookEvents.find((candidate) => candidate.id === id);
+    if (!event || event.processedAt) return false;
+    const calls = this.calls.map((call) => ({ ...call }));
+    const { length: callEvents } = this.callEvents;
+    const { length: transcript } = this.transcript;
+    this.merging = true;
+    try {
+      await merge(mergeTx);
+    } catch (error) {
+      this.calls.forEach((call, index) => Object.assign(call, calls[index]));
+      this.callEvents.length = callEvents;
+      this.transcript.length = transcript;
+      throw error;
+    } finally {
+      this.merging = false;
+    }
+    Object.assign(event, { callId, processedAt: new Date() });
+    return true;
+  }
+
+  async getCallByProviderCallId(providerCallId: string) {
+    return this.calls.find((call) => call.providerCallId === providerCallId);
+  }
+
+  async addCallEvent(callId: number, event: InsertCallEvent, executor?: Executor) {
+    this.write(executor);
+    this.callEvents.push({ ...event, callId });
+  }
+
+  async endCall(id: number, end: EndCall, executor?: Executor) {
+    this.write(executor);
+    const call = this.calls.find((candidate) => candidate.id === id);
+    if (call?.status === "in-progress") Object.assign(call, { status: end.status, endReason: end.endReason ?? null });
+    return call;
+  }
+
+  async updateCallReport(id: number, report: CallReport, executor?: Executor) {
+    this.write(executor);
+    const call = this.calls.find((candidate) => candidate.id === id);
+    if (call) Object.assign(call, report);
+    return call;
+  }
+
+  async countTranscriptSegments(callId: number) {
+    return this.transcript.filter((segment) => segment.callId === callId).length;
+  }
+
+  async addTranscriptSegment(callId: number, segment: InsertTranscriptSegment, executor?: Executor) {
+    this.write(executor);
+    this.transcript.push({ ...segment, callId });
+  }
+}
+
+const memory = vi.hoisted(() => ({ storage: null as unknown as MemoryStorage }));
+
+vi.mock("./storage", () => ({
+  get storage() {
+    return memory.storage;
+  },
+}));
+
+// These events come from browser calls, never from the outbound scheduler
+vi.mock("./outbound", () => ({
+  applyProviderAttemptEvent: async () => false,
+}));
+
+const fixtureDir = fileURLToPath(new URL("../scripts/fixtures/voice-webhooks/", import.meta.url));
+
+function fixture(name: string): VoiceWebhookMessage {
+  return voiceWebhookSchema.parse(JSON.parse(readFileSync(path.join(fixtureDir, name), "utf8"))).message;
+}
+
+const fixtures = readdirSync(fixtureDir).filter((name) => name.endsWith(".json")).sort().map(fixture);
+
+describe("receiveVoiceEvent", () => {
+  let storage: MemoryStorage;
+
+  beforeEach(() => {
+    storage = new MemoryStorage();
+    memory.storage = storage;
+  });
+
+  it("merges every fixture into the linked call", async () => {
+    const call = storage.createCall("fixture-call-1");
+
+    for (const message of fixtures) {
+      expect(await receiveVoiceEvent(message)).toEqual({ status: "merged", callId: call.id });
+    }
+
+    expect(call).toMatchObject({
+      status: "ended",
+      endReason: "customer-ended-call",
+      costUsd: 0.0842,
+      summary: expect.stringContaining("Tunisian Arabic"),
+      recordingUrl: "https://storage.example.com/recordings/fixture-call-1.wav",
+    });
+    expect(storage.callEvents.map((event) => event.type)).toEqual([
+      "provider-status",
+      "tool-calls",
+      "provider-status",
+      "provider-report",
+    ]);
+    expect(storage.callEvents[1].payload).toEqual([
+      { id: "call_fixture_tool_1", name: "bookDemo", arguments: { company: "Acme Telecom", preferredDay: "Tuesday" } },
+    ]);
+    // The browser saved nothing, so the report's transcript fills in, system prompt left out
+    expect(storage.transcript.map((segment) => segment.role)).toEqual(["assistant", "user", "assistant", "user"]);
+    expect(storage.webhookEvents.every((event) => event.callId === call.id && event.processedAt)).toBe(true);
+  });
+
+  it("keeps the transcript the browser already recorded", async () => {
+    const call = storage.createCall("fixture-call-1");
+    await storage.addTranscriptSegment(call.id, { role: "user", text: "Hello?" });
+
+    await receiveVoiceEvent(fixture("05-end-of-call-report.json"));
+
+    expect(storage.transcript).toHaveLength(1);
+  });
+
+  it("treats a redelivered event as a no-op", async () => {
+    storage.createCall("fixture-call-1");
+    const message = fixture("03-tool-calls.json");
+
+    await receiveVoiceEvent(message);
+    expect(await receiveVoiceEvent(message)).toEqual({ status: "duplicate" });
+
+    expect(storage.webhookEvents).toHaveLength(1);
+    expect(storage.callEvents).toHaveLength(1);
+  });
+
+  it("parks events for an unlinked call until the browser links it", async () => {
+    for (const message of fixtures) {
+      expect(await receiveVoiceEvent(message)).toEqual({ status: "pending" });
+    }
+    expect(storage.callEvents).toHaveLength(0);
+
+    const call = storage.createCall("fixture-call-1");
+    await mergePendingVoiceEvents(call);
+
+    expect(call.status).toBe("ended");
+    expect(storage.callEvents).toHaveLength(4);
+    expect(await storage.listPendingWebhookEvents("fixture-call-1")).toHaveLength(0);
+    // Merging twice, as a racing webhook would, changes nothing
+    await mergePendingVoiceEvents(call);
+    expect(storage.callEvents).toHaveLength(4);
+  });
+
+  it("rolls back a merge that failed partway and retries it on redelivery", async () => {
+    const call = storage.createCall("fixture-call-1");
+    const message = fixture("04-status-ended.json");
+    // The status event is written before the call is ended
+    vi.spyOn(storage, "endCall").mockRejectedValueOnce(new Error("connection reset"));
+
+    await expect(receiveVoiceEvent(message)).rejects.toThrow("connection reset");
+    expect(storage.webhookEvents[0].processedAt).toBeNull();
+    expect(storage.callEvents).toHaveLength(0);
+
+    expect(await receiveVoiceEvent(message)).toEqual({ status: "merged", callId: call.id });
+    expect(call.status).toBe("ended");
+    expect(storage.callEvents).toHaveLength(1);
+    expect(storage.webhookEvents).toHaveLength(1);
+  });
+});
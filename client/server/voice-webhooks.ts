@@ -0,0 +1,145 @@
+import { createHash, timingSafeEqual } from "crypto";
+import type { Request } from "express";
+import type { Call, VoiceWebhookMessage, WebhookEvent } from "@shared/schema";
+import { storage, type CallReport, type Executor } from "./storage";
+import { applyProviderAttemptEvent } from "./outbound";
+
+/** Header carrying the shared secret configured for the provider's server URL. */
+export const WEBHOOK_SECRET_HEADER = "x-vapi-secret";
+
+export type VoiceWebhookResult =
+  | { status: "merged"; callId: number }
+  | { status: "pending" }
+  | { status: "outbound" }
+  | { status: "duplicate" };
+
+function digest(value: string) {
+  return createHash("sha256").update(value).digest();
+}
+
+export function webhookSecretConfigured() {
+  return Boolean(process.env.VOICE_WEBHOOK_SECRET);
+}
+
+// Digests have a fixed length, so the comparison does not leak the secret's
+export function hasValidWebhookSecret(req: Request) {
+  const expected = process.env.VOICE_WEBHOOK_SECRET;
+  const supplied = req.get(WEBHOOK_SECRET_HEADER);
+  if (!expected || !supplied) return false;
+  return timingSafeEqual(digest(supplied), digest(expected));
+}
+
+// A redelivered event is byte-for-byte the same, timestamp included
+function eventIdFor(message: VoiceWebhookMessage) {
+  return message.id ?? `sha256:${digest(JSON.stringify(message)).toString("hex")}`;
+}
+
+function reportSpeaker(role: string) {
+  if (role === "user") return "user";
+  if (role === "assistant" || role === "bot") return "assistant";
+  return null;
+}
+
+async function mergeReport(
+  call: Call,
+  message: Extract<VoiceWebhookMessage, { type: "end-of-call-report" }>,
+  tx: Executor,
+) {
+  const report: CallReport = {};
+  const summary = message.summary ?? message.analysis?.summary;
+  const recordingUrl = message.recordingUrl ?? message.artifact?.recordingUrl;
+  if (summary) report.summary = summary;
+  if (message.cost !== undefined) report.costUsd = message.cost;
+  if (recordingUrl) report.recordingUrl = recordingUrl;
+  if (Object.keys(report).length > 0) {
+    await storage.updateCallReport(call.id, report, tx);
+  }
+  await storage.endCall(call.id, { status: "ended", endReason: message.endedReason }, tx);
+
+  // The browser records the live transcript; the report only fills in a call
+  // whose page closed before anything was saved
+  const messages = message.artifact?.messages ?? [];
+  if (messages.length > 0 && (await storage.countTranscriptSegments(call.id, tx)) === 0) {
+    for (const entry of messages) {
+      const role = reportSpeaker(entry.role);
+      if (!role || !entry.message) continue;
+      await storage.addTranscriptSegment(call.id, {
+        role,
+        text: entry.message,
+        spokenAt: entry.time !== undefined ? new Date(entry.time) : undefined,
+      }, tx);
+    }
+  }
+  await storage.addCallEvent(call.id, {
+    type: "provider-report",
+    payload: { endedReason: message.endedReason, cost: message.cost },
+  }, tx);
+}
+
+function mergeEvent(call: Call, event: WebhookEvent) {
+  return storage.mergeWebhookEventOnce(event.id, call.id, (tx) => applyEvent(call, event, tx));
+}
+
+// Every write goes through `tx`, so a merge that fails partway leaves nothing behind
+async function applyEvent(call: Call, event: WebhookEvent, tx: Executor) {
+  const message = event.payload;
+  switch (message.type) {
+    case "status-update":
+      await storage.addCallEvent(call.id, {
+        type: "provider-status",
+        payload: { status: message.status, endedReason: message.endedReason },
+      }, tx);
+      if (message.status === "ended") {
+        await storage.endCall(call.id, { status: "ended", endReason: message.endedReason }, tx);
+      }
+      break;
+    case "end-of-call-report":
+      await mergeReport(call, message, tx);
+      break;
+    case "tool-calls":
+      await storage.addCallEvent(call.id, {
+        type: "tool-calls",
+        payload: message.toolCallList.map((toolCall) => ({
+          id: toolCall.id,
+          name: toolCall.function.name,
+          arguments: toolCall.function.arguments,
+        })),
+      }, tx);
+      break;
+    case "transcript":
+      // Kept with the event only: the browser already stores each final line
+      break;
+  }
+}
+
+/**
+ * Records a provider event and merges it into its call. Events for a call the
+ * browser has not linked yet wait until `mergePendingVoiceEvents` runs.
+ */
+export async function receiveVoiceEvent(message: VoiceWebhookMessage): Promise<VoiceWebhookResult> {
+  const eventId = eventIdFor(message);
+  // A redelivery of an event whose merge failed is given another try
+  const event =
+    (await storage.addWebhookEvent({
+      eventId,
+      type: message.type,
+      providerCallId: message.call.id,
+      payload: message,
+    })) ?? (await storage.getWebhookEvent(eventId));
+  if (!event || event.processedAt) return { status: "duplicate" };
+
+  // Phone calls placed by the outbound scheduler have no browser-side record
+  if (await applyProviderAttemptEvent(event)) return { status: "outbound" };
+
+  const call = await storage.getCallByProviderCallId(message.call.id);
+  if (!call) return { status: "pending" };
+  if (!(await mergeEvent(call, event))) return { status: "duplicate" };
+  return { status: "merged", callId: call.id };
+}
+
+export async function mergePendingVoiceEvents(call: Call) {
+  if (!call.providerCallId) return;
+  for (const event of await storage.listPendingWebhookEvents(call.providerCallId)) {
+    await mergeEvent(call, event);
+  }
+}
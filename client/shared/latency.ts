@@ -0,0 +1,25 @@
+export interface LatencySummary {
+  turns: number;
+  medianMs: number;
+  p95Ms: number;
+}
+
+// Nearest-rank percentile: always an observed value, never an interpolation
+function percentile(sorted: number[], p: number) {
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+}
+
+/**
+ * Median and p95 of per-turn response latencies. Shared so the call card
+ * and the stored call record always agree on the numbers.
+ */
+export function summarizeLatency(latencies: number[]): LatencySummary | null {
+  if (latencies.length === 0) return null;
+  const sorted = [...latencies].sort((a, b) => a - b);
+  return {
+    turns: sorted.length,
+    medianMs: percentile(sorted, 50),
+    p95Ms: percentile(sorted, 95),
+  };
+}
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, index, doublePrecision, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -13,5 +13,710 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+export const loginSchema = insertUserSchema.extend({
+  username: z.string().trim().min(1, "Username is required"),
+  password: z.string().min(1, "Password is required"),
+});
+
+export const registerUserSchema = insertUserSchema.extend({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(64),
+  password: z.string().min(8, "Password must be at least 8 characters").max(128),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+/** A user as sent to the browser, never including the password hash. */
+export type PublicUser = Omit<User, "password">;
+
+/** Validation problems on the public caller-details form, which shows them translated. */
+export type CallerContextIssue =
+  | "prospectNameTooLong"
+  | "companyTooLong"
+  | "useCaseTooLong"
+  | "firstMessageTooLong";
+
+const callerContextIssueMessages: Record<CallerContextIssue, string> = {
+  prospectNameTooLong: "Keep the name under 80 characters",
+  companyTooLong: "Keep the company under 120 characters",
+  useCaseTooLong: "Keep the use case under 500 characters",
+  firstMessageTooLong: "Keep the first message under 500 characters",
+};
+
+/** The caller-context schema with its messages taken from `message`; English by default. */
+export function callerContextSchemaWithMessages(
+  message: (issue: CallerContextIssue) => string = (issue) => callerContextIssueMessages[issue],
+) {
+  return z.object({
+    prospectName: z.string().trim().max(80, message("prospectNameTooLong")).optional(),
+    company: z.string().trim().max(120, message("companyTooLong")).optional(),
+    useCase: z.string().trim().max(500, message("useCaseTooLong")).optional(),
+    firstMessage: z.string().trim().max(500, message("firstMessageTooLong")).optional(),
+  });
+}
+
+/** Prospect details entered before a demo call and passed to the assistant. */
+export const callerContextSchema = callerContextSchemaWithMessages();
+
+export type CallerContext = z.infer<typeof callerContextSchema>;
+
+export const callStatuses = ["in-progress", "ended", "failed"] as const;
+export type CallStatus = (typeof callStatuses)[number];
+
+export const calls = pgTable("calls", {
+  id: serial("id").primaryKey(),
+  assistantId: text("assistant_id").notNull(),
+  engine: text("engine").notNull(),
+  status: text("status", { enum: callStatuses }).notNull().default("in-progress"),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull().defaultNow(),
+  endedAt: timestamp("ended_at", { withTimezone: true }),
+  durationSeconds: integer("duration_seconds"),
+  endReason: text("end_reason"),
+  language: text("language"),
+  callerContext: jsonb("caller_context").$type<CallerContext>(),
+  /** Response latency over the call's turns, filled in when it ends. */
+  latencyMedianMs: integer("latency_median_ms"),
+  latencyP95Ms: integer("latency_p95_ms"),
+  /** The provider's own ID for the call, reported by the browser once it connects. */
+  providerCallId: text("provider_call_id").unique(),
+  /** Filled in from the provider's end-of-call report. */
+  summary: text("summary"),
+  costUsd: doublePrecision("cost_usd"),
+  recordingUrl: text("recording_url"),
+  /** SHA-256 of the token handed to the browser that started the call; only it may record to the call. */
+  recorderTokenHash: text("recorder_token_hash"),
+}, (table) => [
+  index("calls_started_at_idx").on(table.startedAt),
+]);
+
+export const insertCallSchema = createInsertSchema(calls, {
+  callerContext: callerContextSchema.nullable().optional(),
+}).pick({
+  assistantId: true,
+  engine: true,
+  language: true,
+  callerContext: true,
+});
+
+export const endCallSchema = z.object({
+  status: z.enum(["ended", "failed"]).default("ended"),
+  endReason: z.string().max(200).optional(),
+});
+
+export const linkProviderCallSchema = z.object({
+  providerCallId: z.string().trim().min(1).max(200),
+});
+
+export type LinkProviderCall = z.infer<typeof linkProviderCallSchema>;
+
+export const callListQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  /** Exclusive upper bound on `startedAt`. */
+  to: z.coerce.date().optional(),
+  status: z.enum(callStatuses).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type InsertCall = z.infer<typeof insertCallSchema>;
+export type EndCall = z.infer<typeof endCallSchema>;
+export type CallListQuery = z.infer<typeof callListQuerySchema>;
+export type Call = typeof calls.$inferSelect;
+/** Header carrying the token from `CreatedCall` on every later write to that call. */
+export const CALL_TOKEN_HEADER = "x-call-token";
+/** Answer to creating a call; the token is only ever sent this once. */
+export type CreatedCall = Omit<Call, "recorderTokenHash"> & { recorderToken: string };
+export type CallSummary = Call & { errorCount: number };
+
+export interface CallListResponse {
+  items: CallSummary[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const callEvents = pgTable("call_events", {
+  id: serial("id").primaryKey(),
+  callId: integer("call_id").notNull().references(() => calls.id, { onDelete: "cascade" }),
+  type: text("type").notNull(),
+  payload: jsonb("payload"),
+  occurredAt: timestamp("occurred_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("call_events_call_id_idx").on(table.callId),
+]);
+
+export const insertCallEventSchema = createInsertSchema(callEvents, {
+  occurredAt: z.coerce.date().optional(),
+}).pick({
+  type: true,
+  payload: true,
+  occurredAt: true,
+});
+
+export type InsertCallEvent = z.infer<typeof insertCallEventSchema>;
+export type CallEvent = typeof callEvents.$inferSelect;
+
+export const transcriptSegments = pgTable("transcript_segments", {
+  id: serial("id").primaryKey(),
+  callId: integer("call_id").notNull().references(() => calls.id, { onDelete: "cascade" }),
+  role: text("role", { enum: ["user", "assistant"] }).notNull(),
+  text: text("text").notNull(),
+  spokenAt: timestamp("spoken_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("transcript_segments_call_id_idx").on(table.callId),
+]);
+
+export const insertTranscriptSegmentSchema = createInsertSchema(transcriptSegments, {
+  spokenAt: z.coerce.date().optional(),
+}).pick({
+  role: true,
+  text: true,
+  spokenAt: true,
+});
+
+export type InsertTranscriptSegment = z.infer<typeof insertTranscriptSegmentSchema>;
+export type TranscriptSegment = typeof transcriptSegments.$inferSelect;
+
+/** One exchange: the caller stops talking, then the assistant starts. */
+export const callTurns = pgTable("call_turns", {
+  id: serial("id").primaryKey(),
+  callId: integer("call_id").notNull().references(() => calls.id, { onDelete: "cascade" }),
+  turnIndex: integer("turn_index").notNull(),
+  userEndedAt: timestamp("user_ended_at", { withTimezone: true }).notNull(),
+  assistantStartedAt: timestamp("assistant_started_at", { withTimezone: true }).notNull(),
+  latencyMs: integer("latency_ms").notNull(),
+}, (table) => [
+  index("call_turns_call_id_idx").on(table.callId),
+]);
+
+export const insertCallTurnSchema = createInsertSchema(callTurns, {
+  turnIndex: z.number().int().min(0),
+  userEndedAt: z.coerce.date(),
+  assistantStartedAt: z.coerce.date(),
+  latencyMs: z.number().int().min(0).max(600_000),
+}).pick({
+  turnIndex: true,
+  userEndedAt: true,
+  assistantStartedAt: true,
+  latencyMs: true,
+});
+
+export type InsertCallTurn = z.infer<typeof insertCallTurnSchema>;
+export type CallTurn = typeof callTurns.$inferSelect;
+
+export interface CallDetail {
+  call: Call;
+  events: CallEvent[];
+  transcript: TranscriptSegment[];
+  turns: CallTurn[];
+}
+
+/**
+ * Server events the voice provider posts to `/api/webhooks/voice`, one per
+ * request as `{ message }`. Only the fields merged into the call are
+ * validated; everything else passes through and is kept with the event.
+ */
+const providerCallRef = z.object({ id: z.string().min(1).max(200) }).passthrough();
+
+const webhookBase = {
+  /** Sent by some providers; otherwise the event ID is derived from the payload. */
+  id: z.string().min(1).max(200).optional(),
+  timestamp: z.union([z.number(), z.string()]).optional(),
+  call: providerCallRef,
+};
+
+const reportMessageSchema = z.object({
+  role: z.string(),
+  message: z.string().optional(),
+  /** Milliseconds since the epoch. */
+  time: z.number().optional(),
+}).passthrough();
+
+export const voiceWebhookMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    ...webhookBase,
+    type: z.literal("status-update"),
+    status: z.string().min(1).max(50),
+    endedReason: z.string().max(200).optional(),
+  }).passthrough(),
+  z.object({
+    ...webhookBase,
+    type: z.literal("transcript"),
+    role: z.enum(["user", "assistant"]),
+    transcriptType: z.enum(["partial", "final"]),
+    transcript: z.string(),
+  }).passthrough(),
+  z.object({
+    ...webhookBase,
+    type: z.literal("end-of-call-report"),
+    endedReason: z.string().max(200).optional(),
+    summary: z.string().optional(),
+    cost: z.number().nonnegative().optional(),
+    recordingUrl: z.string().url().optional(),
+    analysis: z.object({ summary: z.string().optional() }).passthrough().optional(),
+    artifact: z.object({
+      recordingUrl: z.string().url().optional(),
+      messages: z.array(reportMessageSchema).optional(),
+    }).passthrough().optional(),
+  }).passthrough(),
+  z.object({
+    ...webhookBase,
+    type: z.literal("tool-calls"),
+    toolCallList: z.array(z.object({
+      id: z.string(),
+      function: z.object({ name: z.string(), arguments: z.unknown().optional() }).passthrough(),
+    }).passthrough()),
+  }).passthrough(),
+]);
+
+export const voiceWebhookSchema = z.object({ message: voiceWebhookMessageSchema });
+
+export type VoiceWebhookMessage = z.infer<typeof voiceWebhookMessageSchema>;
+export type VoiceWebhookType = VoiceWebhookMessage["type"];
+
+export const voiceWebhookTypes: readonly VoiceWebhookType[] = [
+  "status-update",
+  "transcript",
+  "end-of-call-report",
+  "tool-calls",
+];
+
+/**
+ * Every webhook event received, keyed by event ID so a redelivery is a
+ * no-op. `processedAt` stays null while the call is not linked yet.
+ */
+export const webhookEvents = pgTable("webhook_events", {
+  id: serial("id").primaryKey(),
+  eventId: text("event_id").notNull().unique(),
+  type: text("type").notNull(),
+  providerCallId: text("provider_call_id").notNull(),
+  callId: integer("call_id").references(() => calls.id, { onDelete: "set null" }),
+  payload: jsonb("payload").$type<VoiceWebhookMessage>().notNull(),
+  receivedAt: timestamp("received_at", { withTimezone: true }).notNull().defaultNow(),
+  processedAt: timestamp("processed_at", { withTimezone: true }),
+}, (table) => [
+  index("webhook_events_provider_call_id_idx").on(table.providerCallId),
+]);
+
+export type WebhookEvent = typeof webhookEvents.$inferSelect;
+export type InsertWebhookEvent = typeof webhookEvents.$inferInsert;
+
+export const leadStatuses = ["new", "contacted", "qualified", "lost"] as const;
+export type LeadStatus = (typeof leadStatuses)[number];
+
+/** Contact details a prospect leaves after a demo call. */
+export const leads = pgTable("leads", {
+  id: serial("id").primaryKey(),
+  // Kept when the call is deleted; null if the call was never recorded
+  callId: integer("call_id").references(() => calls.id, { onDelete: "set null" }),
+  name: text("name").notNull(),
+  email: text("email").notNull(),
+  company: text("company"),
+  phone: text("phone"),
+  interest: text("interest"),
+  status: text("status", { enum: leadStatuses }).notNull().default("new"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("leads_created_at_idx").on(table.createdAt),
+  index("leads_call_id_idx").on(table.callId),
+]);
+
+/** Validation problems on the public lead form, which shows them translated. */
+export type LeadIssue =
+  | "nameRequired"
+  | "nameTooLong"
+  | "emailInvalid"
+  | "companyTooLong"
+  | "phoneTooLong"
+  | "phoneInvalid"
+  | "interestTooLong";
+
+const leadIssueMessages: Record<LeadIssue, string> = {
+  nameRequired: "Name is required",
+  nameTooLong: "Keep the name under 80 characters",
+  emailInvalid: "Enter a valid email address",
+  companyTooLong: "Keep the company under 120 characters",
+  phoneTooLong: "Keep the phone number under 40 characters",
+  phoneInvalid: "Enter a valid phone number",
+  interestTooLong: "Keep the interest under 500 characters",
+};
+
+/** The lead schema with its messages taken from `message`; English by default. */
+export function leadSchemaWithMessages(message: (issue: LeadIssue) => string = (issue) => leadIssueMessages[issue]) {
+  return createInsertSchema(leads, {
+    callId: z.number().int().positive().nullable().optional(),
+    name: z.string().trim().min(1, message("nameRequired")).max(80, message("nameTooLong")),
+    email: z.string().trim().email(message("emailInvalid")).max(254, message("emailInvalid")),
+    company: z.string().trim().max(120, message("companyTooLong")).optional(),
+    // Blank is allowed: the form sends every field, filled in or not
+    phone: z
+      .string()
+      .trim()
+      .max(40, message("phoneTooLong"))
+      .refine((value) => value === "" || /^\+?[\d\s().-]{6,}$/.test(value), message("phoneInvalid"))
+      .optional(),
+    interest: z.string().trim().max(500, message("interestTooLong")).optional(),
+  }).pick({
+    callId: true,
+    name: true,
+    email: true,
+    company: true,
+    phone: true,
+    interest: true,
+  });
+}
+
+export const insertLeadSchema = leadSchemaWithMessages();
+
+export const updateLeadSchema = z.object({
+  status: z.enum(leadStatuses),
+});
+
+export const leadListQuerySchema = z.object({
+  status: z.enum(leadStatuses).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type InsertLead = z.infer<typeof insertLeadSchema>;
+export type UpdateLead = z.infer<typeof updateLeadSchema>;
+export type LeadListQuery = z.infer<typeof leadListQuerySchema>;
+export type Lead = typeof leads.$inferSelect;
+
+export interface LeadListResponse {
+  items: Lead[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+export const outboundCallStatuses = ["scheduled", "dialing", "completed", "failed", "cancelled"] as const;
+export type OutboundCallStatus = (typeof outboundCallStatuses)[number];
+
+/** States of one dial attempt; the last four are final. */
+export const attemptStatuses = ["dialing", "ringing", "in-progress", "completed", "no-answer", "busy", "failed"] as const;
+export type AttemptStatus = (typeof attemptStatuses)[number];
+export type FinalAttemptStatus = Extract<AttemptStatus, "completed" | "no-answer" | "busy" | "failed">;
+export const finalAttemptStatuses: FinalAttemptStatus[] = ["completed", "no-answer", "busy", "failed"];
+
+export const campaignStatuses = ["running", "paused", "completed"] as const;
+export type CampaignStatus = (typeof campaignStatuses)[number];
+
+/** Outbound calls to a list of contacts imported from one CSV file. */
+export const campaigns = pgTable("campaigns", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  assistantId: text("assistant_id").notNull(),
+  status: text("status", { enum: campaignStatuses }).notNull().default("running"),
+  /** Most of this campaign's calls dialing at the same time. */
+  concurrency: integer("concurrency").notNull().default(1),
+  /**
+   * Local `HH:mm` bounds of the hours contacts may be called in, end
+   * excluded. A window ending before it starts runs past midnight.
+   */
+  windowStart: text("window_start").notNull().default("09:00"),
+  windowEnd: text("window_end").notNull().default("18:00"),
+  timeZone: text("time_zone").notNull().default("UTC"),
+  /** Copied onto every contact's outbound call. */
+  maxAttempts: integer("max_attempts").notNull().default(1),
+  retryDelaySeconds: integer("retry_delay_seconds").notNull().default(3600),
+  /** CSV column holding each contact's number. */
+  phoneColumn: text("phone_column").notNull(),
+  /** CSV column to the assistant variable its value is passed as. */
+  variableMapping: jsonb("variable_mapping").$type<Record<string, string>>().notNull().default({}),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/** A phone call staff asked the server to place at a given time. */
+export const outboundCalls = pgTable("outbound_calls", {
+  id: serial("id").primaryKey(),
+  /** Set for a campaign's contacts; single calls have none. */
+  campaignId: integer("campaign_id").references(() => campaigns.id, { onDelete: "cascade" }),
+  /** Assistant variables filled in from the contact's CSV row. */
+  variables: jsonb("variables").$type<Record<string, string>>(),
+  phoneNumber: text("phone_number").notNull(),
+  assistantId: text("assistant_id").notNull(),
+  scheduledFor: timestamp("scheduled_for", { withTimezone: true }).notNull(),
+  status: text("status", { enum: outboundCallStatuses }).notNull().default("scheduled"),
+  /** No-answer and busy outcomes are retried until this many attempts. */
+  maxAttempts: integer("max_attempts").notNull().default(1),
+  retryDelaySeconds: integer("retry_delay_seconds").notNull().default(600),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  index("outbound_calls_status_scheduled_for_idx").on(table.status, table.scheduledFor),
+  index("outbound_calls_campaign_id_status_idx").on(table.campaignId, table.status),
+]);
+
+export const outboundCallAttempts = pgTable("outbound_call_attempts", {
+  id: serial("id").primaryKey(),
+  outboundCallId: integer("outbound_call_id").notNull().references(() => outboundCalls.id, { onDelete: "cascade" }),
+  attemptNumber: integer("attempt_number").notNull(),
+  provider: text("provider").notNull(),
+  providerCallId: text("provider_call_id").unique(),
+  status: text("status", { enum: attemptStatuses }).notNull().default("dialing"),
+  /** Provider's explanation for a failed attempt. */
+  reason: text("reason"),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull().defaultNow(),
+  answeredAt: timestamp("answered_at", { withTimezone: true }),
+  endedAt: timestamp("ended_at", { withTimezone: true }),
+}, (table) => [
+  index("outbound_call_attempts_outbound_call_id_idx").on(table.outboundCallId),
+]);
+
+// E.164: a plus sign, then up to 15 digits without a leading zero
+export const phoneNumberSchema = z
+  .string()
+  .trim()
+  .transform((value) => value.replace(/[\s().-]/g, ""))
+  .pipe(z.string().regex(/^\+[1-9]\d{6,14}$/, "Enter the number in international format, e.g. +216 95 926 440"));
+
+export const insertOutboundCallSchema = createInsertSchema(outboundCalls, {
+  phoneNumber: phoneNumberSchema,
+  assistantId: z.string().trim().min(1, "Pick an assistant").max(200),
+  scheduledFor: z.coerce.date(),
+  maxAttempts: z.number().int().min(1).max(5).default(1),
+}).pick({
+  phoneNumber: true,
+  assistantId: true,
+  scheduledFor: true,
+  maxAttempts: true,
+});
+
+export const outboundCallListQuerySchema = z.object({
+  status: z.enum(outboundCallStatuses).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type InsertOutboundCall = z.infer<typeof insertOutboundCallSchema>;
+export type OutboundCallListQuery = z.infer<typeof outboundCallListQuerySchema>;
+export type OutboundCall = typeof outboundCalls.$inferSelect;
+export type OutboundCallAttempt = typeof outboundCallAttempts.$inferSelect;
+export type OutboundCallWithAttempts = OutboundCall & { attempts: OutboundCallAttempt[] };
+
+export interface OutboundCallListResponse {
+  items: OutboundCallWithAttempts[];
+  total: number;
+  page: number;
+  pageSize: number;
+  /** Name of the provider new attempts are placed through. */
+  provider: string;
+}
+
+/** Whether `value` is an IANA zone this runtime's Intl data knows. */
+export function isTimeZone(value: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const MAX_CAMPAIGN_CONTACTS = 5000;
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Use 24-hour time, e.g. 09:00");
+
+// Assistants reference variables as {{name}} in their prompts
+const variableNameSchema = z
+  .string()
+  .trim()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Variable names use letters, digits and underscores");
+
+/** Whether two columns feed the same variable, where one value would overwrite the other. */
+export function hasRepeatedVariable(variableMapping: Record<string, string>) {
+  const names = Object.values(variableMapping);
+  return new Set(names).size !== names.length;
+}
+
+export const insertCampaignSchema = createInsertSchema(campaigns, {
+  name: z.string().trim().min(1, "Name the campaign").max(120, "Keep the name under 120 characters"),
+  assistantId: z.string().trim().min(1, "Pick an assistant").max(200),
+  concurrency: z.number().int().min(1).max(10).default(1),
+  windowStart: timeOfDaySchema,
+  windowEnd: timeOfDaySchema,
+  timeZone: z.string().refine(isTimeZone, "Unknown time zone"),
+  maxAttempts: z.number().int().min(1).max(5).default(1),
+  retryDelaySeconds: z.number().int().min(60).max(24 * 60 * 60).default(3600),
+  phoneColumn: z.string().min(1, "Pick the column holding phone numbers"),
+  variableMapping: z.record(z.string(), variableNameSchema).default({}),
+}).pick({
+  name: true,
+  assistantId: true,
+  concurrency: true,
+  windowStart: true,
+  windowEnd: true,
+  timeZone: true,
+  maxAttempts: true,
+  retryDelaySeconds: true,
+  phoneColumn: true,
+  variableMapping: true,
+}).extend({
+  /** The CSV's data rows, keyed by header, with the line each starts on. */
+  rows: z
+    .array(z.object({ line: z.number().int().min(1), cells: z.record(z.string(), z.string()) }))
+    .min(1, "The file has no contacts")
+    .max(MAX_CAMPAIGN_CONTACTS, `Import at most ${MAX_CAMPAIGN_CONTACTS} contacts at a time`),
+}).refine((campaign) => campaign.windowStart !== campaign.windowEnd, {
+  message: "The calling window cannot start and end at the same time",
+  path: ["windowEnd"],
+}).refine((campaign) => !hasRepeatedVariable(campaign.variableMapping), {
+  message: "Each variable name can only come from one column",
+  path: ["variableMapping"],
+});
+
+export const campaignListQuerySchema = z.object({
+  status: z.enum(campaignStatuses).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+});
+
+export type InsertCampaign = z.infer<typeof insertCampaignSchema>;
+export type CampaignListQuery = z.infer<typeof campaignListQuerySchema>;
+export type Campaign = typeof campaigns.$inferSelect;
+/** How many of a campaign's contacts are in each outbound call status. */
+export type CampaignProgress = Record<OutboundCallStatus, number>;
+export type CampaignWithProgress = Campaign & { progress: CampaignProgress; contacts: number };
+
+export interface CampaignListResponse {
+  items: CampaignWithProgress[];
+  total: number;
+  page: number;
+  pageSize: number;
+}
+
+/** A CSV row left out of a campaign. */
+export interface SkippedContact {
+  /** Line the row starts on in the file, the header being line 1. */
+  line: number;
+  reason: string;
+}
+
+export interface CampaignImportResponse {
+  campaign: Campaign;
+  imported: number;
+  skipped: SkippedContact[];
+}
+
+export const modelProviders = ["openai", "anthropic", "google", "groq"] as const;
+export const voiceProviders = ["11labs", "openai", "azure", "cartesia", "playht"] as const;
+
+/** Everything the app manages about an assistant, pushed to the provider as a whole. */
+export const assistantConfigSchema = z.object({
+  systemPrompt: z.string().trim().min(1, "Write the system prompt").max(20000, "Keep the prompt under 20000 characters"),
+  firstMessage: z.string().trim().max(1000, "Keep the first message under 1000 characters").default(""),
+  /** Code of the demo language the assistant speaks, e.g. "FR". */
+  language: z.string().regex(/^[A-Z]{2}$/, "Pick a language"),
+  modelProvider: z.enum(modelProviders),
+  model: z.string().trim().min(1, "Name the model").max(100),
+  voiceProvider: z.enum(voiceProviders),
+  voiceId: z.string().trim().min(1, "Enter the voice ID").max(200),
+  /** The call hangs up once the assistant says one of these. */
+  endCallPhrases: z.array(z.string().trim().min(1).max(200)).max(20, "Use at most 20 end-call phrases").default([]),
+});
+
+export type AssistantConfig = z.infer<typeof assistantConfigSchema>;
+
+export const assistants = pgTable("assistants", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  /** The provider's ID, once the assistant exists there. */
+  providerAssistantId: text("provider_assistant_id").unique(),
+  /** Version last pushed to the provider. */
+  publishedVersion: integer("published_version"),
+  publishedAt: timestamp("published_at", { withTimezone: true }),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+/** Saved configurations of an assistant. Rows are only ever inserted. */
+export const assistantVersions = pgTable("assistant_versions", {
+  id: serial("id").primaryKey(),
+  assistantId: integer("assistant_id").notNull().references(() => assistants.id, { onDelete: "cascade" }),
+  /** Counts up from 1 for each assistant. */
+  version: integer("version").notNull(),
+  config: jsonb("config").$type<AssistantConfig>().notNull(),
+  /** What changed, in the author's words. */
+  note: text("note"),
+  createdBy: integer("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("assistant_versions_assistant_id_version_idx").on(table.assistantId, table.version),
+]);
+
+const versionNoteSchema = z.string().trim().max(200, "Keep the note under 200 characters").optional();
+
+export const insertAssistantSchema = z.object({
+  name: z.string().trim().min(1, "Name the assistant").max(120, "Keep the name under 120 characters"),
+  /** Links an assistant that already exists at the provider instead of creating one. */
+  providerAssistantId: z.string().trim().max(200).optional(),
+  config: assistantConfigSchema,
+  note: versionNoteSchema,
+});
+
+export const insertAssistantVersionSchema = z.object({
+  config: assistantConfigSchema,
+  note: versionNoteSchema,
+});
+
+export type InsertAssistant = z.infer<typeof insertAssistantSchema>;
+export type InsertAssistantVersion = z.infer<typeof insertAssistantVersionSchema>;
+export type Assistant = typeof assistants.$inferSelect;
+export type AssistantVersion = typeof assistantVersions.$inferSelect;
+export type AssistantSummary = Assistant & { latestVersion: number };
+/** An assistant with its versions, newest first. */
+export type AssistantDetail = Assistant & { versions: AssistantVersion[] };
+
+export interface AssistantDetailResponse extends AssistantDetail {
+  /** Name of the provider versions are pushed to. */
+  provider: string;
+}
+
+/** An assistant live at the provider, as the call pickers list it. */
+export interface PublishedAssistant {
+  id: number;
+  name: string;
+  providerAssistantId: string;
+  /** Language of the published version. */
+  language: string;
+}
+
+export const analyticsQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  /** Exclusive upper bound on `startedAt`. */
+  to: z.coerce.date().optional(),
+  assistantId: z.string().trim().min(1).max(200).optional(),
+  /** IANA zone that per-day buckets are cut in, normally the viewer's. */
+  timeZone: z.string().default("UTC").refine(isTimeZone, "Unknown time zone"),
+});
+
+export type AnalyticsQuery = z.infer<typeof analyticsQuerySchema>;
+
+/** Duration figures only count calls that recorded one. */
+export interface CallOverview {
+  calls: number;
+  ended: number;
+  failed: number;
+  avgDurationSeconds: number | null;
+  p95DurationSeconds: number | null;
+}
+
+export interface DailyCallStats extends CallOverview {
+  /** `YYYY-MM-DD` in the requested time zone. */
+  day: string;
+}
+
+/** Call count for one value of a column; `null` groups calls without one. */
+export interface CallBreakdown {
+  value: string | null;
+  calls: number;
+}
+
+export interface AssistantUsage {
+  assistantId: string;
+  calls: number;
+}
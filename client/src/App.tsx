@@ -1,15 +1,34 @@
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
+import { ThemeProvider } from "next-themes";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { ConfigProvider } from "@/hooks/use-config";
+import { I18nProvider } from "@/hooks/use-i18n";
+import PaletteStyle from "@/components/palette-style";
 import Home from "@/pages/home";
+import AuthPage from "@/pages/auth-page";
+import CallsPage from "@/pages/calls";
+import LeadsPage from "@/pages/leads";
+import OutboundPage from "@/pages/outbound";
+import CampaignsPage from "@/pages/campaigns";
+import AssistantsPage from "@/pages/assistants";
+import DashboardPage from "@/pages/dashboard";
+import { ProtectedRoute } from "@/lib/protected-route";
 import NotFound from "@/pages/not-found";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/auth" component={AuthPage} />
+      <ProtectedRoute path="/dashboard" component={DashboardPage} />
+      <ProtectedRoute path="/calls" component={CallsPage} />
+      <ProtectedRoute path="/leads" component={LeadsPage} />
+      <ProtectedRoute path="/outbound" component={OutboundPage} />
+      <ProtectedRoute path="/campaigns" component={CampaignsPage} />
+      <ProtectedRoute path="/assistants" component={AssistantsPage} />
       <Route component={NotFound} />
     </Switch>
   );
@@ -18,10 +37,17 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <ThemeProvider attribute="class" defaultTheme="system" enableSystem storageKey="vela-theme" disableTransitionOnChange>
+        <I18nProvider>
+          <TooltipProvider>
+            <Toaster />
+            <ConfigProvider>
+              <PaletteStyle />
+              <Router />
+            </ConfigProvider>
+          </TooltipProvider>
+        </I18nProvider>
+      </ThemeProvider>
     </QueryClientProvider>
   );
 }
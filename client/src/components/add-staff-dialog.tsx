@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { UserPlus } from "lucide-react";
+import { registerUserSchema } from "@shared/schema";
+import CredentialsForm from "@/components/credentials-form";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useAuth } from "@/hooks/use-auth";
+
+/** Lets signed-in staff create an account for a colleague. */
+export default function AddStaffDialog() {
+  const { registerMutation } = useAuth();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="ghost" size="sm" aria-label="Add staff member">
+          <UserPlus className="w-4 h-4 me-1" />
+          <span className="hidden sm:inline">Add staff</span>
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add a staff member</DialogTitle>
+          <DialogDescription>
+            They sign in with this username and password. You stay signed in as yourself.
+          </DialogDescription>
+        </DialogHeader>
+        {/* The dialog unmounts its content when closed, so the form starts empty each time */}
+        <CredentialsForm
+          schema={registerUserSchema}
+          submitLabel="Create account"
+          isPending={registerMutation.isPending}
+          onSubmit={(values) => registerMutation.mutate(values, { onSuccess: () => setOpen(false) })}
+          autoCompletePassword="new-password"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,298 @@
+import { useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { assistantConfigSchema, modelProviders, voiceProviders, type AssistantConfig } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { demoLanguages } from "@/lib/languages";
+
+export const blankAssistantConfig: AssistantConfig = {
+  systemPrompt: "",
+  firstMessage: "",
+  language: "EN",
+  modelProvider: "openai",
+  model: "gpt-4o",
+  voiceProvider: "11labs",
+  voiceId: "",
+  endCallPhrases: [],
+};
+
+// End-call phrases are edited one per line
+const configFormSchema = assistantConfigSchema.extend({
+  firstMessage: z.string().trim().max(1000, "Keep the first message under 1000 characters"),
+  endCallPhrases: z.string(),
+  note: z.string().trim().max(200, "Keep the note under 200 characters"),
+  name: z.string().trim().max(120, "Keep the name under 120 characters"),
+  providerAssistantId: z.string().trim().max(200),
+});
+
+type ConfigFormValues = z.infer<typeof configFormSchema>;
+
+export interface AssistantConfigSubmission {
+  config: AssistantConfig;
+  note?: string;
+  /** Only when creating an assistant. */
+  name?: string;
+  providerAssistantId?: string;
+}
+
+interface AssistantConfigFormProps {
+  /** Creating asks for the assistant's name and an optional existing provider ID too. */
+  mode: "create" | "edit";
+  defaults: AssistantConfig;
+  pending: boolean;
+  onSubmit: (submission: AssistantConfigSubmission) => void;
+}
+
+function splitPhrases(text: string) {
+  return text.split("\n").map((phrase) => phrase.trim()).filter(Boolean);
+}
+
+export default function AssistantConfigForm({ mode, defaults, pending, onSubmit }: AssistantConfigFormProps) {
+  const schema = useMemo(
+    () =>
+      configFormSchema.superRefine((values, ctx) => {
+        if (mode === "create" && !values.name) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Name the assistant", path: ["name"] });
+        }
+        if (splitPhrases(values.endCallPhrases).length > 20) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Use at most 20 end-call phrases", path: ["endCallPhrases"] });
+        }
+      }),
+    [mode],
+  );
+
+  const form = useForm<ConfigFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: {
+      ...defaults,
+      endCallPhrases: defaults.endCallPhrases.join("\n"),
+      note: "",
+      name: "",
+      providerAssistantId: "",
+    },
+  });
+
+  const submit = ({ endCallPhrases, note, name, providerAssistantId, ...config }: ConfigFormValues) => {
+    onSubmit({
+      config: { ...config, endCallPhrases: splitPhrases(endCallPhrases) },
+      note: note || undefined,
+      ...(mode === "create" && { name, providerAssistantId: providerAssistantId || undefined }),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(submit)} className="space-y-5">
+        {mode === "create" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="providerAssistantId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Existing provider assistant ID</FormLabel>
+                  <FormControl>
+                    <Input className="font-mono" placeholder="Optional" {...field} />
+                  </FormControl>
+                  <FormDescription>Publishing overwrites that assistant; leave blank to create a new one.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="systemPrompt"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>System prompt</FormLabel>
+              <FormControl>
+                <Textarea rows={12} className="font-mono text-sm" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="firstMessage"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>First message</FormLabel>
+              <FormControl>
+                <Textarea rows={2} {...field} />
+              </FormControl>
+              <FormDescription>Said as soon as the call connects. Leave blank to wait for the caller.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="language"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Language</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {demoLanguages.map((language) => (
+                      <SelectItem key={language.code} value={language.code}>{language.title}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="modelProvider"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Model provider</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {modelProviders.map((provider) => (
+                      <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="model"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Model</FormLabel>
+                <FormControl>
+                  <Input className="font-mono" placeholder="gpt-4o" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="voiceProvider"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Voice provider</FormLabel>
+                <Select value={field.value} onValueChange={field.onChange}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {voiceProviders.map((provider) => (
+                      <SelectItem key={provider} value={provider}>{provider}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="voiceId"
+            render={({ field }) => (
+              <FormItem className="md:col-span-2">
+                <FormLabel>Voice ID</FormLabel>
+                <FormControl>
+                  <Input className="font-mono" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="endCallPhrases"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>End-call phrases</FormLabel>
+              <FormControl>
+                <Textarea rows={3} placeholder={"Goodbye!\nHave a nice day."} {...field} />
+              </FormControl>
+              <FormDescription>One per line. The call hangs up once the assistant says one of them.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <FormField
+            control={form.control}
+            name="note"
+            render={({ field }) => (
+              <FormItem className="flex-1">
+                <FormLabel>What changed</FormLabel>
+                <FormControl>
+                  <Input placeholder="Optional note for the version history" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <Button type="submit" disabled={pending}>
+            {pending && <Loader2 className="w-4 h-4 me-2 animate-spin" />}
+            {mode === "create" ? "Create assistant" : "Save new version"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,68 @@
+import type { AssistantConfig, AssistantVersion } from "@shared/schema";
+import { diffLines } from "@/lib/diff";
+import { languageTitle, type LanguageCode } from "@/lib/languages";
+import { cn } from "@/lib/utils";
+
+const fields: { key: keyof AssistantConfig; label: string; multiline?: boolean }[] = [
+  { key: "systemPrompt", label: "System prompt", multiline: true },
+  { key: "firstMessage", label: "First message", multiline: true },
+  { key: "language", label: "Language" },
+  { key: "modelProvider", label: "Model provider" },
+  { key: "model", label: "Model" },
+  { key: "voiceProvider", label: "Voice provider" },
+  { key: "voiceId", label: "Voice ID" },
+  { key: "endCallPhrases", label: "End-call phrases", multiline: true },
+];
+
+function fieldText(config: AssistantConfig, key: keyof AssistantConfig) {
+  const value = config[key];
+  if (Array.isArray(value)) return value.join("\n");
+  return key === "language" ? languageTitle(value as LanguageCode) : value;
+}
+
+const lineStyles = {
+  same: "text-gray-600",
+  added: "bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300",
+  removed: "bg-red-50 text-red-800 line-through decoration-red-300 dark:bg-red-950 dark:text-red-300",
+};
+
+const linePrefix = { same: " ", added: "+", removed: "-" };
+
+/** Field-by-field changes from `before` to `after`; unchanged fields are left out. */
+export default function AssistantVersionDiff({ before, after }: { before: AssistantVersion; after: AssistantVersion }) {
+  const changed = fields.filter(({ key }) => fieldText(before.config, key) !== fieldText(after.config, key));
+
+  if (changed.length === 0) {
+    return <p className="text-sm text-gray-500">Versions {before.version} and {after.version} are identical.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {changed.map(({ key, label, multiline }) => {
+        const from = fieldText(before.config, key);
+        const to = fieldText(after.config, key);
+        return (
+          <section key={key} className="space-y-1">
+            <h4 className="text-sm font-medium">{label}</h4>
+            {multiline ? (
+              <pre className="rounded-md border text-xs leading-5 overflow-x-auto whitespace-pre-wrap">
+                {diffLines(from, to).map((line, index) => (
+                  <div key={index} className={cn("px-3", lineStyles[line.type])}>
+                    <span className="select-none text-gray-400 me-2">{linePrefix[line.type]}</span>
+                    {line.text || " "}
+                  </div>
+                ))}
+              </pre>
+            ) : (
+              <p className="text-sm font-mono">
+                <span className="text-red-700 dark:text-red-300 line-through">{from || "—"}</span>
+                {" → "}
+                <span className="text-green-700 dark:text-green-300">{to || "—"}</span>
+              </p>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useRef } from "react";
+import { AlertCircle, Mic, MicOff, Volume2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import type { MicrophoneCheck } from "@/hooks/use-microphone-check";
+import { useI18n } from "@/hooks/use-i18n";
+
+// Radix Select reserves "" for "no value", so the browser default gets a token
+const DEFAULT_DEVICE = "default-device";
+
+function LevelMeter({ getLevel, active, label }: { getLevel: () => number; active: boolean; label: string }) {
+  const barRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!active) {
+      if (barRef.current) barRef.current.style.width = "0%";
+      return;
+    }
+    let frame = 0;
+    const tick = () => {
+      if (barRef.current) {
+        barRef.current.style.width = `${Math.round(getLevel() * 100)}%`;
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    tick();
+    return () => cancelAnimationFrame(frame);
+  }, [active, getLevel]);
+
+  return (
+    <div
+      className="h-2 w-full overflow-hidden rounded-full bg-gray-200 dark:bg-gray-700"
+      role="meter"
+      aria-label={label}
+    >
+      <div ref={barRef} className="h-full bg-green-500 transition-[width] duration-75" style={{ width: "0%" }} />
+    </div>
+  );
+}
+
+function deviceLabel(device: MediaDeviceInfo, index: number, fallback: string) {
+  return device.label || `${fallback} ${index + 1}`;
+}
+
+interface AudioCheckPanelProps {
+  check: MicrophoneCheck;
+  disabled?: boolean;
+}
+
+export default function AudioCheckPanel({ check, disabled }: AudioCheckPanelProps) {
+  const isActive = check.status === "active";
+  const { t } = useI18n();
+  const problem = check.problem;
+
+  return (
+    <div className="space-y-4 rounded-lg border border-gray-200 dark:border-gray-700 p-4 text-start">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>{t("audioCheck.microphone")}</Label>
+          <Select
+            value={check.inputId || DEFAULT_DEVICE}
+            onValueChange={(value) => check.selectInput(value === DEFAULT_DEVICE ? "" : value)}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>{t("audioCheck.systemDefault")}</SelectItem>
+              {check.inputs
+                .filter((device) => device.deviceId && device.deviceId !== "default")
+                .map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {deviceLabel(device, index, t("audioCheck.microphone"))}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>{t("audioCheck.speaker")}</Label>
+          <Select
+            value={check.outputId || DEFAULT_DEVICE}
+            onValueChange={(value) => check.setOutputId(value === DEFAULT_DEVICE ? "" : value)}
+            disabled={disabled || check.outputs.length === 0}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE}>{t("audioCheck.systemDefault")}</SelectItem>
+              {check.outputs
+                .filter((device) => device.deviceId && device.deviceId !== "default")
+                .map((device, index) => (
+                  <SelectItem key={device.deviceId} value={device.deviceId}>
+                    {deviceLabel(device, index, t("audioCheck.speaker"))}
+                  </SelectItem>
+                ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          {isActive ? t("audioCheck.speakNow") : t("audioCheck.inputLevel")}
+        </p>
+        <LevelMeter getLevel={check.getLevel} active={isActive} label={t("audioCheck.levelLabel")} />
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {isActive ? (
+          <Button variant="outline" size="sm" onClick={check.stop} disabled={disabled}>
+            <MicOff className="w-4 h-4 me-2" />
+            {t("audioCheck.stopTest")}
+          </Button>
+        ) : (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => check.start()}
+            disabled={disabled || check.status === "requesting"}
+          >
+            <Mic className="w-4 h-4 me-2" />
+            {t("audioCheck.testMic")}
+          </Button>
+        )}
+        <Button variant="outline" size="sm" onClick={check.testSpeaker} disabled={disabled}>
+          <Volume2 className="w-4 h-4 me-2" />
+          {t("audioCheck.playTone")}
+        </Button>
+      </div>
+
+      {problem && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>{t(`micProblem.${problem.kind}.message`)}</AlertTitle>
+          <AlertDescription>{t(`micProblem.${problem.kind}.fix`)}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useRef } from "react";
+import { usePrefersReducedMotion } from "@/hooks/use-reduced-motion";
+import { useI18n } from "@/hooks/use-i18n";
+
+// Bar heights relative to the level, so the waveform peaks in the middle
+const BAR_PROFILE = [0.45, 0.7, 0.9, 1, 0.9, 0.7, 0.45];
+const MIN_BAR = 0.08;
+// Fraction of the previous level kept per frame, so peaks fall off smoothly
+const DECAY = 0.85;
+const AUDIBLE = 0.05;
+
+interface WaveformProps {
+  label: string;
+  getLevel: () => number;
+  barClassName: string;
+  reducedMotion: boolean;
+}
+
+function Waveform({ label, getLevel, barClassName, reducedMotion }: WaveformProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const bars = Array.from(container.querySelectorAll<HTMLElement>("[data-bar]"));
+    const dot = container.querySelector<HTMLElement>("[data-dot]");
+    let level = 0;
+
+    const render = (now: number) => {
+      level = Math.max(getLevel(), level * DECAY);
+      if (dot) {
+        dot.style.opacity = level > AUDIBLE ? "1" : "0.25";
+      }
+      bars.forEach((bar, index) => {
+        // A slight per-bar wobble keeps a steady level from looking frozen
+        const wobble = 0.85 + 0.15 * Math.sin(now / 120 + index);
+        const height = Math.max(MIN_BAR, level * BAR_PROFILE[index] * wobble);
+        bar.style.transform = `scaleY(${height})`;
+      });
+    };
+
+    // Reduced motion: no animation frames, just an on/off audible dot
+    if (reducedMotion) {
+      const interval = setInterval(() => render(0), 250);
+      return () => clearInterval(interval);
+    }
+
+    let frame = 0;
+    const tick = (now: number) => {
+      render(now);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [getLevel, reducedMotion]);
+
+  return (
+    <div ref={containerRef} className="flex flex-col items-center space-y-2">
+      {reducedMotion ? (
+        <div data-dot className={`w-4 h-4 rounded-full ${barClassName}`} style={{ opacity: 0.25 }} />
+      ) : (
+        <div className="flex items-center h-12 space-x-1" aria-hidden="true">
+          {BAR_PROFILE.map((_, index) => (
+            <div
+              key={index}
+              data-bar
+              className={`w-1.5 h-full rounded-full origin-center ${barClassName}`}
+              style={{ transform: `scaleY(${MIN_BAR})` }}
+            />
+          ))}
+        </div>
+      )}
+      <span className="text-xs font-medium text-gray-500 dark:text-gray-400">{label}</span>
+    </div>
+  );
+}
+
+interface AudioVisualizerProps {
+  getAssistantLevel: () => number;
+  getUserLevel: () => number;
+}
+
+/**
+ * Live loudness of both sides of the call. Levels are polled rather than
+ * pushed through React state, so the page does not re-render every frame.
+ * Pass stable callbacks: a new function restarts the animation loop.
+ */
+export default function AudioVisualizer({ getAssistantLevel, getUserLevel }: AudioVisualizerProps) {
+  const reducedMotion = usePrefersReducedMotion();
+  const { t } = useI18n();
+
+  return (
+    <div className="flex items-end justify-center space-x-10 rtl:space-x-reverse" role="img" aria-label={t("visualizer.label")}>
+      <Waveform label={t("visualizer.assistant")} getLevel={getAssistantLevel} barClassName="bg-brand-500" reducedMotion={reducedMotion} />
+      <Waveform label={t("visualizer.you")} getLevel={getUserLevel} barClassName="bg-green-500" reducedMotion={reducedMotion} />
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+import { useQuery } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import type { CallDetail } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { formatDateTime, formatDuration, formatLatency } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+// A call still in progress gains events and transcript lines as it runs
+const LIVE_REFRESH_MS = 3000;
+
+interface CallDetailViewProps {
+  callId: number;
+}
+
+export default function CallDetailView({ callId }: CallDetailViewProps) {
+  const { data, isLoading, error } = useQuery<CallDetail>({
+    queryKey: [`/api/calls/${callId}`],
+    staleTime: 0,
+    refetchInterval: (query) => (query.state.data?.call.status === "in-progress" ? LIVE_REFRESH_MS : false),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return <p className="text-sm text-red-600 py-6">Failed to load call: {error?.message}</p>;
+  }
+
+  const { call, events, transcript, turns } = data;
+
+  return (
+    <div className="space-y-6">
+      <dl className="grid grid-cols-2 gap-3 text-sm">
+        <dt className="text-gray-500">Started</dt>
+        <dd>{formatDateTime(call.startedAt)}</dd>
+        <dt className="text-gray-500">Duration</dt>
+        <dd>{call.durationSeconds != null ? formatDuration(call.durationSeconds) : "—"}</dd>
+        <dt className="text-gray-500">Status</dt>
+        <dd><Badge variant={call.status === "failed" ? "destructive" : "secondary"}>{call.status}</Badge></dd>
+        <dt className="text-gray-500">Response time</dt>
+        <dd>
+          {call.latencyMedianMs != null && call.latencyP95Ms != null
+            ? `median ${formatLatency(call.latencyMedianMs)} · p95 ${formatLatency(call.latencyP95Ms)}`
+            : "—"}
+        </dd>
+        <dt className="text-gray-500">End reason</dt>
+        <dd>{call.endReason ?? "—"}</dd>
+        <dt className="text-gray-500">Language</dt>
+        <dd>{call.language ?? "—"}</dd>
+        <dt className="text-gray-500">Assistant</dt>
+        <dd className="font-mono text-xs break-all">{call.assistantId}</dd>
+        {call.costUsd != null && (
+          <>
+            <dt className="text-gray-500">Provider cost</dt>
+            <dd>{new Intl.NumberFormat(undefined, { style: "currency", currency: "USD", maximumFractionDigits: 4 }).format(call.costUsd)}</dd>
+          </>
+        )}
+        {call.recordingUrl && (
+          <>
+            <dt className="text-gray-500">Recording</dt>
+            <dd>
+              <audio controls preload="none" src={call.recordingUrl} className="w-full h-8" />
+            </dd>
+          </>
+        )}
+        {call.summary && (
+          <>
+            <dt className="text-gray-500">Summary</dt>
+            <dd className="whitespace-pre-wrap">{call.summary}</dd>
+          </>
+        )}
+        {call.callerContext && (
+          <>
+            <dt className="text-gray-500">Prospect</dt>
+            <dd>{[call.callerContext.prospectName, call.callerContext.company].filter(Boolean).join(", ") || "—"}</dd>
+            <dt className="text-gray-500">Use case</dt>
+            <dd className="whitespace-pre-wrap">{call.callerContext.useCase ?? "—"}</dd>
+            <dt className="text-gray-500">First message</dt>
+            <dd className="whitespace-pre-wrap">{call.callerContext.firstMessage ?? "Assistant default"}</dd>
+          </>
+        )}
+      </dl>
+
+      <Tabs defaultValue="transcript">
+        <TabsList>
+          <TabsTrigger value="transcript">Transcript ({transcript.length})</TabsTrigger>
+          <TabsTrigger value="events">Event log ({events.length})</TabsTrigger>
+          <TabsTrigger value="turns">Turns ({turns.length})</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="transcript" className="space-y-3">
+          {transcript.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">No transcript was recorded for this call.</p>
+          ) : (
+            transcript.map((segment) => (
+              <div key={segment.id} className={cn("flex flex-col", segment.role === "user" ? "items-end" : "items-start")}>
+                <span className="text-xs text-gray-500 mb-1">
+                  {segment.role === "user" ? "Caller" : "Assistant"} · {new Date(segment.spokenAt).toLocaleTimeString()}
+                </span>
+                <div
+                  className={cn(
+                    "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+                    segment.role === "user"
+                      ? "bg-brand-600 text-white"
+                      : "bg-gray-100 dark:bg-gray-800 text-gray-800 dark:text-gray-200",
+                  )}
+                >
+                  {segment.text}
+                </div>
+              </div>
+            ))
+          )}
+        </TabsContent>
+
+        <TabsContent value="events">
+          {events.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">No events were recorded for this call.</p>
+          ) : (
+            <ol className="space-y-2 font-mono text-xs">
+              {events.map((event) => (
+                <li key={event.id} className="flex gap-2">
+                  <span className="text-gray-500 shrink-0">{new Date(event.occurredAt).toLocaleTimeString()}</span>
+                  <span className={cn("font-semibold shrink-0", event.type === "error" && "text-red-600")}>{event.type}</span>
+                  {event.payload != null && (
+                    <span className="text-gray-600 dark:text-gray-400 break-all">{JSON.stringify(event.payload)}</span>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </TabsContent>
+
+        <TabsContent value="turns">
+          {turns.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4">No complete turns were recorded for this call.</p>
+          ) : (
+            <ol className="space-y-2 text-sm">
+              {turns.map((turn) => (
+                <li key={turn.id} className="flex justify-between gap-2">
+                  <span className="text-gray-500">
+                    Turn {turn.turnIndex + 1} · {new Date(turn.userEndedAt).toLocaleTimeString()}
+                  </span>
+                  <span className="font-mono">{formatLatency(turn.latencyMs)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
@@ -0,0 +1,169 @@
+import { useMemo, useState } from "react";
+import { AlertCircle, AlertTriangle, Bug, CheckCircle, Download, Info, Search, Terminal, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useCallLog } from "@/hooks/use-call-log";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatTime } from "@/lib/format";
+import {
+  callLog,
+  logLevels,
+  logsToCsv,
+  logsToJson,
+  matchesLogQuery,
+  type LogEntry,
+  type LogLevel,
+} from "@/lib/log-store";
+
+const levelStyles: Record<LogLevel, { icon: typeof Info; color: string }> = {
+  debug: { icon: Bug, color: "text-gray-400" },
+  info: { icon: Info, color: "text-brand-500" },
+  success: { icon: CheckCircle, color: "text-green-500" },
+  warn: { icon: AlertTriangle, color: "text-amber-500" },
+  error: { icon: AlertCircle, color: "text-red-500" },
+};
+
+function download(content: string, type: string, extension: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `vela-call-log-${new Date().toISOString().replace(/[:.]/g, "-")}.${extension}`;
+  link.click();
+  // Revoking in the same task can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+export default function CallLogPanel() {
+  const logs = useCallLog();
+  const [levels, setLevels] = useState<LogLevel[]>(["info", "success", "warn", "error"]);
+  const [query, setQuery] = useState("");
+  const { t } = useI18n();
+
+  const visible = useMemo(
+    () => logs.filter((log) => levels.includes(log.level) && matchesLogQuery(log, query)),
+    [logs, levels, query],
+  );
+
+  // Exports follow the active filters so the trace matches what is on screen
+  const exportAs = (kind: "json" | "csv") => {
+    if (kind === "json") {
+      download(logsToJson(visible), "application/json", "json");
+    } else {
+      download(logsToCsv(visible), "text/csv", "csv");
+    }
+  };
+
+  return (
+    <Card className="shadow-xl hover:shadow-2xl transition-shadow duration-300">
+      <CardContent className="p-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-lg font-semibold vela-dark dark:text-white flex items-center">
+            <Terminal className="w-5 h-5 me-2 vela-blue" />
+            {t("log.title")}
+          </h3>
+          <div className="flex items-center gap-1">
+            <Button
+              onClick={() => exportAs("json")}
+              disabled={visible.length === 0}
+              variant="ghost"
+              size="sm"
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <Download className="w-4 h-4 me-1" />
+              JSON
+            </Button>
+            <Button
+              onClick={() => exportAs("csv")}
+              disabled={visible.length === 0}
+              variant="ghost"
+              size="sm"
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              <Download className="w-4 h-4 me-1" />
+              CSV
+            </Button>
+            <Button
+              onClick={() => callLog.clear()}
+              variant="ghost"
+              size="sm"
+              className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200"
+            >
+              <Trash2 className="w-4 h-4 me-1" />
+              {t("log.clear")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2 mb-3">
+          <ToggleGroup
+            type="multiple"
+            size="sm"
+            variant="outline"
+            value={levels}
+            onValueChange={(value) => setLevels(value as LogLevel[])}
+            className="justify-start flex-wrap"
+          >
+            {logLevels.map((level) => (
+              <ToggleGroupItem key={level} value={level} className="text-xs">
+                {t(`log.level.${level}`)}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+          <div className="relative flex-1">
+            <Search className="w-4 h-4 absolute start-2.5 top-1/2 -translate-y-1/2 text-gray-400" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t("log.search")}
+              className="ps-8 h-9"
+            />
+          </div>
+        </div>
+
+        <ScrollArea className="h-40 w-full border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900/50">
+          <div className="p-4">
+            {visible.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                <Info className="w-4 h-4 inline me-2" />
+                {logs.length === 0 ? t("log.empty") : t("log.noMatch")}
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {visible.map((log) => (
+                  <LogLine key={log.id} log={log} />
+                ))}
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
+
+function LogLine({ log }: { log: LogEntry }) {
+  const { icon: IconComponent, color } = levelStyles[log.level];
+  const { intlLocale } = useI18n();
+
+  return (
+    <div className="flex items-start space-x-2 rtl:space-x-reverse text-sm animate-in fade-in slide-in-from-left-2 duration-300">
+      <IconComponent className={`w-4 h-4 mt-0.5 shrink-0 ${color}`} />
+      <span className="text-gray-500 dark:text-gray-400 shrink-0" title={log.timestamp}>
+        [{formatTime(log.timestamp, intlLocale)}]
+      </span>
+      <span className="text-xs uppercase text-gray-400 mt-0.5 w-14 shrink-0">{log.source}</span>
+      <span className="text-gray-700 dark:text-gray-300 flex-1 break-words">
+        {log.message}
+        {log.payload && (
+          <span className="block font-mono text-xs text-gray-500 dark:text-gray-400">
+            {JSON.stringify(log.payload)}
+          </span>
+        )}
+      </span>
+    </div>
+  );
+}
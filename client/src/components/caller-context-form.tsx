@@ -0,0 +1,99 @@
+import type { UseFormReturn } from "react-hook-form";
+import type { CallerContext } from "@shared/schema";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useI18n } from "@/hooks/use-i18n";
+import { callerVariables } from "@/lib/caller-context";
+
+interface CallerContextFormProps {
+  form: UseFormReturn<CallerContext>;
+  disabled?: boolean;
+}
+
+/**
+ * Fields only: the owning page submits the form together with its
+ * Start Call button, so a call never starts with invalid values.
+ */
+export default function CallerContextForm({ form, disabled }: CallerContextFormProps) {
+  const { t } = useI18n();
+
+  return (
+    <Form {...form}>
+      <form onSubmit={(event) => event.preventDefault()} className="space-y-4 text-start">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="prospectName"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("callerForm.prospectName")}</FormLabel>
+                <FormControl>
+                  <Input placeholder="Amira Ben Ali" autoComplete="off" {...field} disabled={disabled} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="company"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{t("callerForm.company")}</FormLabel>
+                <FormControl>
+                  <Input placeholder="Acme Telecom" autoComplete="off" {...field} disabled={disabled} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+        <FormField
+          control={form.control}
+          name="useCase"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("callerForm.useCase")}</FormLabel>
+              <FormControl>
+                <Textarea
+                  rows={2}
+                  placeholder={t("callerForm.useCasePlaceholder")}
+                  {...field}
+                  disabled={disabled}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="firstMessage"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("callerForm.firstMessage")}</FormLabel>
+              <FormControl>
+                <Textarea rows={2} placeholder={t("callerForm.firstMessagePlaceholder")} {...field} disabled={disabled} />
+              </FormControl>
+              <FormDescription>
+                {t("callerForm.firstMessageHint", {
+                  variables: callerVariables.map((name) => `{{${name}}}`).join(", "),
+                })}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,458 @@
+import { useState, type ChangeEvent } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { FileUp, Loader2 } from "lucide-react";
+import {
+  isTimeZone,
+  MAX_CAMPAIGN_CONTACTS,
+  type CampaignImportResponse,
+  type InsertCampaign,
+} from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAvailableAssistants } from "@/hooks/use-assistants";
+import { useToast } from "@/hooks/use-toast";
+import { assistantLabel } from "@/lib/config";
+import { parseCsv, type CsvTable } from "@/lib/csv";
+import { apiRequest } from "@/lib/queryClient";
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5, 10];
+const ATTEMPT_OPTIONS = [1, 2, 3, 4, 5];
+const RETRY_DELAY_OPTIONS = [
+  { minutes: 15, label: "15 minutes" },
+  { minutes: 60, label: "1 hour" },
+  { minutes: 240, label: "4 hours" },
+  { minutes: 1440, label: "1 day" },
+];
+const VARIABLE_NAME = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+const campaignFormSchema = z.object({
+  name: z.string().trim().min(1, "Name the campaign").max(120, "Keep the name under 120 characters"),
+  assistantId: z.string().min(1, "Pick an assistant"),
+  concurrency: z.number().int().min(1).max(10),
+  windowStart: z.string().min(1, "Pick a start time"),
+  windowEnd: z.string().min(1, "Pick an end time"),
+  timeZone: z.string().trim().refine(isTimeZone, "Unknown time zone, e.g. Africa/Tunis"),
+  maxAttempts: z.number().int().min(1).max(5),
+  retryDelayMinutes: z.number().int().min(1),
+}).refine((values) => values.windowStart !== values.windowEnd, {
+  message: "The window cannot start and end at the same time",
+  path: ["windowEnd"],
+});
+
+type CampaignFormValues = z.infer<typeof campaignFormSchema>;
+
+// "First name" -> "first_name", the form assistants' {{placeholders}} usually take
+function suggestVariableName(column: string) {
+  const name = column.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "");
+  return /^[0-9]/.test(name) ? `_${name}` : name;
+}
+
+function guessPhoneColumn(columns: string[]) {
+  return columns.find((column) => /phone|mobile|number|tel|numéro|رقم/i.test(column)) ?? columns[0] ?? "";
+}
+
+interface CampaignImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onCreated: (result: CampaignImportResponse) => void;
+}
+
+export default function CampaignImportDialog({ open, onOpenChange, onCreated }: CampaignImportDialogProps) {
+  const { toast } = useToast();
+  const assistants = useAvailableAssistants();
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [table, setTable] = useState<CsvTable | null>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const [phoneColumn, setPhoneColumn] = useState("");
+  /** Column to variable name; blank leaves the column out. */
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+
+  const form = useForm<CampaignFormValues>({
+    resolver: zodResolver(campaignFormSchema),
+    defaultValues: {
+      name: "",
+      assistantId: assistants[0]?.assistantId ?? "",
+      concurrency: 1,
+      windowStart: "09:00",
+      windowEnd: "18:00",
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      maxAttempts: 2,
+      retryDelayMinutes: 60,
+    },
+  });
+
+  // Columns passed to the assistant, with their trimmed variable names
+  const variables = Object.entries(mapping)
+    .filter(([column, name]) => column !== phoneColumn && name.trim() !== "")
+    .map(([column, name]) => [column, name.trim()] as const);
+  const invalidColumns = variables.filter(([, name]) => !VARIABLE_NAME.test(name)).map(([column]) => column);
+  const repeatedColumns = variables
+    .filter(([, name]) => variables.filter(([, other]) => other === name).length > 1)
+    .map(([column]) => column);
+
+  const reset = () => {
+    form.reset();
+    setFileName(null);
+    setTable(null);
+    setFileError(null);
+    setPhoneColumn("");
+    setMapping({});
+  };
+
+  const close = () => {
+    onOpenChange(false);
+    reset();
+  };
+
+  const readFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    const parsed = parseCsv(await file.text());
+    if (parsed.columns.length === 0 || parsed.rows.length === 0) {
+      setTable(null);
+      setFileError("The file needs a header line and at least one contact");
+      return;
+    }
+    if (parsed.rows.length > MAX_CAMPAIGN_CONTACTS) {
+      setTable(null);
+      setFileError(`The file has ${parsed.rows.length} contacts; import at most ${MAX_CAMPAIGN_CONTACTS} at a time`);
+      return;
+    }
+    const phone = guessPhoneColumn(parsed.columns);
+    setTable(parsed);
+    setFileError(null);
+    setPhoneColumn(phone);
+    setMapping(Object.fromEntries(parsed.columns.map((column) => [column, suggestVariableName(column)])));
+    if (!form.getValues("name")) {
+      form.setValue("name", file.name.replace(/\.csv$/i, ""));
+    }
+  };
+
+  const createCampaign = useMutation<CampaignImportResponse, Error, InsertCampaign>({
+    mutationFn: async (campaign) => {
+      const res = await apiRequest("POST", "/api/campaigns", campaign);
+      return await res.json();
+    },
+    onSuccess: (result) => {
+      const skipped = result.skipped.length;
+      toast({
+        title: `Campaign "${result.campaign.name}" started`,
+        description: `${result.imported} contacts imported${skipped > 0 ? `, ${skipped} rows skipped` : ""}.`,
+      });
+      onCreated(result);
+      close();
+    },
+    onError: (error) => {
+      toast({ title: "Could not create the campaign", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const submit = (values: CampaignFormValues) => {
+    if (!table) {
+      setFileError("Choose a CSV file of contacts");
+      return;
+    }
+    if (invalidColumns.length > 0 || repeatedColumns.length > 0) return;
+    const { retryDelayMinutes, ...settings } = values;
+    // Only the columns the import reads: wide exports would outgrow the request size limit
+    const sent = [phoneColumn, ...variables.map(([column]) => column)];
+    createCampaign.mutate({
+      ...settings,
+      retryDelaySeconds: retryDelayMinutes * 60,
+      phoneColumn,
+      variableMapping: Object.fromEntries(variables),
+      rows: table.rows.map(({ line, cells }) => ({
+        line,
+        cells: Object.fromEntries(sent.map((column) => [column, cells[column] ?? ""])),
+      })),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>New campaign</DialogTitle>
+          <DialogDescription>
+            Import contacts from a CSV file with a header line. Every other column can be passed to the assistant as a
+            variable.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(submit)} className="space-y-5">
+            <div className="space-y-2">
+              <Label htmlFor="campaign-file">Contacts</Label>
+              <label
+                htmlFor="campaign-file"
+                className="flex items-center gap-2 rounded-md border border-dashed px-3 py-3 text-sm cursor-pointer hover:bg-accent"
+              >
+                <FileUp className="w-4 h-4 text-brand-600" />
+                {fileName && table
+                  ? `${fileName}: ${table.rows.length} contacts, ${table.columns.length} columns`
+                  : fileName ?? "Choose a CSV file"}
+              </label>
+              <input id="campaign-file" type="file" accept=".csv,text/csv" className="sr-only" onChange={readFile} />
+              {fileError && <p className="text-sm font-medium text-destructive">{fileError}</p>}
+            </div>
+
+            {table && (
+              <div className="space-y-3">
+                <div className="space-y-2">
+                  <Label>Phone number column</Label>
+                  <Select value={phoneColumn} onValueChange={setPhoneColumn}>
+                    <SelectTrigger className="w-64">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {table.columns.map((column) => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Column</TableHead>
+                      <TableHead>First contact</TableHead>
+                      <TableHead>Assistant variable</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {table.columns.map((column) => (
+                      <TableRow key={column}>
+                        <TableCell className="font-medium">{column}</TableCell>
+                        <TableCell className="text-gray-500 max-w-[12rem] truncate">{table.rows[0].cells[column] || "—"}</TableCell>
+                        <TableCell>
+                          {column === phoneColumn ? (
+                            <span className="text-sm text-gray-500">Number to dial</span>
+                          ) : (
+                            <Input
+                              className="h-8 font-mono"
+                              placeholder="Not passed"
+                              value={mapping[column] ?? ""}
+                              onChange={(event) => setMapping({ ...mapping, [column]: event.target.value })}
+                              aria-invalid={invalidColumns.includes(column) || repeatedColumns.includes(column)}
+                              aria-label={`Variable for ${column}`}
+                            />
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+                {invalidColumns.length > 0 && (
+                  <p className="text-sm font-medium text-destructive">
+                    Variable names use letters, digits and underscores, and cannot start with a digit.
+                  </p>
+                )}
+                {repeatedColumns.length > 0 && (
+                  <p className="text-sm font-medium text-destructive">
+                    Each variable name can only come from one column.
+                  </p>
+                )}
+              </div>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="assistantId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Assistant</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Pick an assistant" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {assistants.map((option) => (
+                          <SelectItem key={`${option.language}-${option.assistantId}`} value={option.assistantId}>
+                            {assistantLabel(option)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="windowStart"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Call from</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="windowEnd"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Until</FormLabel>
+                    <FormControl>
+                      <Input type="time" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="timeZone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Time zone</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormDescription>The contacts' local time, e.g. Africa/Tunis.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="concurrency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Calls at once</FormLabel>
+                    <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {CONCURRENCY_OPTIONS.map((n) => (
+                          <SelectItem key={n} value={String(n)}>{n}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="maxAttempts"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Attempts per contact</FormLabel>
+                    <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {ATTEMPT_OPTIONS.map((n) => (
+                          <SelectItem key={n} value={String(n)}>
+                            {n === 1 ? "1 (no retry)" : `Up to ${n}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Busy and unanswered calls are retried.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="retryDelayMinutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Retry after</FormLabel>
+                    <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RETRY_DELAY_OPTIONS.map((option) => (
+                          <SelectItem key={option.minutes} value={String(option.minutes)}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={close}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={createCampaign.isPending}>
+                {createCampaign.isPending && <Loader2 className="w-4 h-4 me-2 animate-spin" />}
+                Start campaign
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
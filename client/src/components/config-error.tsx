@@ -0,0 +1,40 @@
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertCircle } from "lucide-react";
+
+interface ConfigErrorScreenProps {
+  issues: string[];
+}
+
+export default function ConfigErrorScreen({ issues }: ConfigErrorScreenProps) {
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Card className="w-full max-w-lg mx-4">
+        <CardContent className="pt-6">
+          <div className="flex mb-4 gap-2">
+            <AlertCircle className="h-8 w-8 text-red-500" />
+            <h1 className="text-2xl font-bold text-gray-900">Setup Required</h1>
+          </div>
+
+          <p className="mt-4 text-sm text-gray-600">
+            The voice agent is not configured yet:
+          </p>
+          <ul className="mt-2 list-disc ps-5 text-sm text-red-600">
+            {issues.map((issue) => (
+              <li key={issue}>{issue}</li>
+            ))}
+          </ul>
+
+          <p className="mt-4 text-sm text-gray-600">
+            Set <code className="font-mono">VITE_VAPI_PUBLIC_KEY</code> and{" "}
+            <code className="font-mono">VITE_VAPI_ASSISTANT_ID</code> in{" "}
+            <code className="font-mono">.env</code> before building, or serve a{" "}
+            <code className="font-mono">/config.json</code> with{" "}
+            <code className="font-mono">vapiPublicKey</code> and{" "}
+            <code className="font-mono">vapiAssistantId</code>. For offline
+            development, set <code className="font-mono">VITE_VOICE_ENGINE=mock</code>.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
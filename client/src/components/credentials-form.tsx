@@ -0,0 +1,66 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Loader2 } from "lucide-react";
+import type { loginSchema, registerUserSchema, InsertUser } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+
+interface CredentialsFormProps {
+  schema: typeof loginSchema | typeof registerUserSchema;
+  submitLabel: string;
+  isPending: boolean;
+  onSubmit: (values: InsertUser) => void;
+  autoCompletePassword: "current-password" | "new-password";
+}
+
+export default function CredentialsForm({ schema, submitLabel, isPending, onSubmit, autoCompletePassword }: CredentialsFormProps) {
+  const form = useForm<InsertUser>({
+    resolver: zodResolver(schema),
+    defaultValues: { username: "", password: "" },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input autoComplete="username" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Password</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete={autoCompletePassword} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button type="submit" className="w-full" disabled={isPending}>
+          {isPending && <Loader2 className="w-4 h-4 me-2 animate-spin" />}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,45 @@
+import { addDays, format, startOfDay } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { CalendarIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+/** Sets `from` and `to` so the API, which treats `to` as exclusive, covers the whole last day. */
+export function setDateRangeParams(params: URLSearchParams, range: DateRange | undefined) {
+  if (!range?.from) return;
+  params.set("from", startOfDay(range.from).toISOString());
+  params.set("to", addDays(startOfDay(range.to ?? range.from), 1).toISOString());
+}
+
+interface DateRangePickerProps {
+  value: DateRange | undefined;
+  onChange: (range: DateRange | undefined) => void;
+}
+
+export default function DateRangePicker({ value, onChange }: DateRangePickerProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="justify-start font-normal min-w-[16rem]">
+          <CalendarIcon className="w-4 h-4 me-2" />
+          {value?.from
+            ? value.to
+              ? `${format(value.from, "LLL d, y")} – ${format(value.to, "LLL d, y")}`
+              : format(value.from, "LLL d, y")
+            : "Any date"}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="start">
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={value}
+          onSelect={onChange}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,30 @@
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useI18n } from "@/hooks/use-i18n";
+import { localeInfo, locales, type Locale } from "@/lib/i18n";
+
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+      <SelectTrigger className="h-9 w-auto gap-2 border-none shadow-none" aria-label={t("header.language")}>
+        <Languages className="w-4 h-4 text-gray-500" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {locales.map((code) => (
+          <SelectItem key={code} value={code} lang={code}>
+            {localeInfo[code].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
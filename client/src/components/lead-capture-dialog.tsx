@@ -0,0 +1,173 @@
+import { useEffect, useMemo } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { Loader2 } from "lucide-react";
+import { CALL_TOKEN_HEADER, leadSchemaWithMessages, type InsertLead, type Lead } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { useI18n } from "@/hooks/use-i18n";
+import { useToast } from "@/hooks/use-toast";
+import type { RecordedCall } from "@/lib/call-recorder";
+import { apiRequest } from "@/lib/queryClient";
+
+interface LeadCaptureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The stored call the answers belong to, or null if it was not recorded. */
+  call: RecordedCall | null;
+  /** Details the prospect already typed before the call. */
+  defaults: { name?: string; company?: string };
+  onSubmitted: (lead: Lead) => void;
+}
+
+export default function LeadCaptureDialog({ open, onOpenChange, call, defaults, onSubmitted }: LeadCaptureDialogProps) {
+  const { t } = useI18n();
+  const { toast } = useToast();
+  // Same rules as the server, with the messages in the visitor's language
+  const schema = useMemo(() => leadSchemaWithMessages((issue) => t(`lead.error.${issue}`)), [t]);
+  const form = useForm<InsertLead>({
+    resolver: zodResolver(schema),
+    defaultValues: { name: "", email: "", company: "", phone: "", interest: "" },
+  });
+
+  // Start from the caller details each time, keeping anything typed here before
+  useEffect(() => {
+    if (!open) return;
+    const values = form.getValues();
+    form.reset({
+      ...values,
+      name: values.name || defaults.name || "",
+      company: values.company || defaults.company || "",
+    });
+  }, [open]);
+
+  const submitLead = useMutation<Lead, Error, InsertLead>({
+    mutationFn: async (values) => {
+      // The call's token shows the server this visitor made the call
+      const res = await apiRequest(
+        "POST",
+        "/api/leads",
+        { ...values, callId: call?.id ?? null },
+        call ? { [CALL_TOKEN_HEADER]: call.token } : {},
+      );
+      return await res.json();
+    },
+    onSuccess: (lead) => {
+      toast({ title: t("lead.saved"), description: t("lead.savedBody") });
+      form.reset();
+      onSubmitted(lead);
+    },
+    onError: () => {
+      toast({ title: t("lead.failed"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("lead.title")}</DialogTitle>
+          <DialogDescription>{t("lead.description")}</DialogDescription>
+        </DialogHeader>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => submitLead.mutate(values))} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("lead.name")}</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("lead.email")}</FormLabel>
+                    <FormControl>
+                      <Input type="email" autoComplete="email" dir="ltr" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="company"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("lead.company")}</FormLabel>
+                    <FormControl>
+                      <Input autoComplete="organization" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="phone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{t("lead.phone")}</FormLabel>
+                    <FormControl>
+                      <Input type="tel" autoComplete="tel" dir="ltr" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="interest"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("lead.interest")}</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder={t("lead.interestPlaceholder")} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <DialogFooter>
+              <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+                {t("lead.skip")}
+              </Button>
+              <Button type="submit" disabled={submitLead.isPending}>
+                {submitLead.isPending && <Loader2 className="w-4 h-4 me-2 animate-spin" />}
+                {t("lead.submit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,74 @@
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+
+// Current page, its neighbours and the ends; gaps collapse into ellipses
+function visiblePages(page: number, pageCount: number): (number | "gap")[] {
+  const pages = new Set([1, pageCount, page - 1, page, page + 1]);
+  const sorted = Array.from(pages).filter((p) => p >= 1 && p <= pageCount).sort((a, b) => a - b);
+  return sorted.flatMap((p, i) => (i > 0 && p - sorted[i - 1] > 1 ? ["gap" as const, p] : [p]));
+}
+
+interface ListPaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+/** Pager for the staff tables; renders nothing when everything fits on one page. */
+export default function ListPagination({ page, pageCount, onPageChange }: ListPaginationProps) {
+  if (pageCount <= 1) return null;
+
+  return (
+    <Pagination>
+      <PaginationContent>
+        <PaginationItem>
+          <PaginationPrevious
+            href="#"
+            aria-disabled={page === 1}
+            className={page === 1 ? "pointer-events-none opacity-50" : ""}
+            onClick={(e) => {
+              e.preventDefault();
+              onPageChange(Math.max(1, page - 1));
+            }}
+          />
+        </PaginationItem>
+        {visiblePages(page, pageCount).map((p, i) => (
+          <PaginationItem key={`${p}-${i}`}>
+            {p === "gap" ? (
+              <PaginationEllipsis />
+            ) : (
+              <PaginationLink
+                href="#"
+                isActive={p === page}
+                onClick={(e) => {
+                  e.preventDefault();
+                  onPageChange(p);
+                }}
+              >
+                {p}
+              </PaginationLink>
+            )}
+          </PaginationItem>
+        ))}
+        <PaginationItem>
+          <PaginationNext
+            href="#"
+            aria-disabled={page === pageCount}
+            className={page === pageCount ? "pointer-events-none opacity-50" : ""}
+            onClick={(e) => {
+              e.preventDefault();
+              onPageChange(Math.min(pageCount, page + 1));
+            }}
+          />
+        </PaginationItem>
+      </PaginationContent>
+    </Pagination>
+  );
+}
@@ -0,0 +1,40 @@
+import type { AttemptStatus, OutboundCallWithAttempts } from "@shared/schema";
+import { formatTime } from "@/lib/format";
+import { cn } from "@/lib/utils";
+
+const attemptStyles: Record<AttemptStatus, string> = {
+  dialing: "text-gray-500",
+  ringing: "text-amber-600",
+  "in-progress": "text-brand-600",
+  completed: "text-green-600",
+  "no-answer": "text-amber-700",
+  busy: "text-amber-700",
+  failed: "text-red-600",
+};
+
+/** Every dial attempt of an outbound call, and when the next one is due. */
+export default function OutboundAttempts({ call }: { call: OutboundCallWithAttempts }) {
+  return (
+    <>
+      {call.attempts.length === 0 ? (
+        <span className="text-gray-500">—</span>
+      ) : (
+        <ol className="space-y-1 text-xs">
+          {call.attempts.map((attempt) => (
+            <li key={attempt.id} title={attempt.reason ?? undefined}>
+              <span className="text-gray-500">
+                #{attempt.attemptNumber} · {formatTime(attempt.startedAt)} ·{" "}
+              </span>
+              <span className={cn("font-medium", attemptStyles[attempt.status])}>{attempt.status}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+      {call.status === "scheduled" && call.attempts.length > 0 && (
+        <p className="text-xs text-gray-500 mt-1">
+          Attempt {call.attempts.length + 1} of {call.maxAttempts} at {formatTime(call.scheduledFor)}
+        </p>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,10 @@
+import { useMemo } from "react";
+import { useConfig } from "@/hooks/use-config";
+import { paletteCss } from "@/lib/theme";
+
+/** Applies the deployment's brand palette, if it ships one, over the default theme. */
+export default function PaletteStyle() {
+  const { palette } = useConfig();
+  const css = useMemo(() => (palette ? paletteCss(palette) : ""), [palette]);
+  return css ? <style data-palette>{css}</style> : null;
+}
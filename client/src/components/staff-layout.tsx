@@ -0,0 +1,117 @@
+import type { ReactNode } from "react";
+import { Link, useLocation } from "wouter";
+import { BarChart3, Bot, History, LogOut, Megaphone, Menu, PhoneOutgoing, UserCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import AddStaffDialog from "@/components/add-staff-dialog";
+import ThemeToggle from "@/components/theme-toggle";
+import { useAuth } from "@/hooks/use-auth";
+import { cn } from "@/lib/utils";
+
+export const staffNavItems = [
+  { href: "/dashboard", label: "Dashboard", icon: BarChart3 },
+  { href: "/calls", label: "Call History", icon: History },
+  { href: "/leads", label: "Leads", icon: UserCheck },
+  { href: "/outbound", label: "Outbound Calls", icon: PhoneOutgoing },
+  { href: "/campaigns", label: "Campaigns", icon: Megaphone },
+  { href: "/assistants", label: "Assistants", icon: Bot },
+];
+
+interface StaffLayoutProps {
+  title: string;
+  description?: string;
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+export default function StaffLayout({ title, description, actions, children }: StaffLayoutProps) {
+  const { user, logoutMutation } = useAuth();
+  const [location] = useLocation();
+
+  return (
+    <div className="min-h-screen">
+      <header className="bg-white dark:bg-gray-900 shadow-sm border-b border-gray-100 dark:border-gray-800">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-3 flex items-center justify-between gap-4">
+          <div className="flex items-center gap-2 md:gap-6">
+            {/* Phones get the same pages from a menu in place of the nav bar */}
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="md:hidden" aria-label="Staff pages">
+                  <Menu className="w-5 h-5" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {staffNavItems.map((item) => (
+                  <DropdownMenuItem
+                    key={item.href}
+                    asChild
+                    className={cn(location.startsWith(item.href) && "bg-brand-50 text-brand-700 dark:bg-brand-900/30 dark:text-brand-300")}
+                  >
+                    <Link href={item.href}>
+                      <item.icon className="w-4 h-4 me-2" />
+                      {item.label}
+                    </Link>
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <Link href="/">
+              <img src="/vela.png" alt="Vela AI" className="w-28 h-auto object-contain" />
+            </Link>
+            <nav className="hidden md:flex items-center gap-1">
+              {staffNavItems.map((item) => (
+                <Link
+                  key={item.href}
+                  href={item.href}
+                  className={cn(
+                    "flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium transition-colors",
+                    location.startsWith(item.href)
+                      ? "bg-brand-50 text-brand-700 dark:bg-brand-900/30 dark:text-brand-300"
+                      : "text-gray-600 hover:text-gray-900 dark:text-gray-400 dark:hover:text-gray-100",
+                  )}
+                >
+                  <item.icon className="w-4 h-4" />
+                  {item.label}
+                </Link>
+              ))}
+            </nav>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <span className="hidden sm:inline text-sm text-gray-600 dark:text-gray-400">{user?.username}</span>
+            <AddStaffDialog />
+            <ThemeToggle />
+            <Button
+              variant="ghost"
+              size="sm"
+              aria-label="Sign out"
+              onClick={() => logoutMutation.mutate()}
+              disabled={logoutMutation.isPending}
+            >
+              <LogOut className="w-4 h-4 me-1" />
+              <span className="hidden sm:inline">Sign out</span>
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4 mb-6">
+          <div>
+            <h1 className="text-2xl font-bold vela-dark dark:text-white">{title}</h1>
+            {description && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">{description}</p>
+            )}
+          </div>
+          {actions}
+        </div>
+        {children}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useEffect, useRef, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ArrowDown, Bot, Keyboard, MessageSquare, User } from "lucide-react";
+import { useI18n } from "@/hooks/use-i18n";
+import { formatTime } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import type { TranscriptEntry } from "@/lib/transcript";
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  className?: string;
+}
+
+// Distance from the bottom (px) that still counts as "following" the chat
+const STICKY_THRESHOLD = 32;
+
+export default function TranscriptPanel({ entries, className }: TranscriptPanelProps) {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [followLatest, setFollowLatest] = useState(true);
+  const { t, intlLocale } = useI18n();
+
+  const scrollToBottom = () => {
+    const el = scrollRef.current;
+    if (el) {
+      el.scrollTop = el.scrollHeight;
+    }
+  };
+
+  useEffect(() => {
+    if (followLatest) {
+      scrollToBottom();
+    }
+  }, [entries, followLatest]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const distance = el.scrollHeight - el.scrollTop - el.clientHeight;
+    setFollowLatest(distance <= STICKY_THRESHOLD);
+  };
+
+  return (
+    <Card className={cn("shadow-2xl border-0 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm", className)}>
+      <CardContent className="p-6 h-full flex flex-col">
+        <h3 className="text-lg font-semibold vela-dark dark:text-white flex items-center mb-4">
+          <MessageSquare className="w-5 h-5 me-2 vela-blue" />
+          {t("transcript.title")}
+        </h3>
+
+        <div className="relative flex-1 min-h-0 lg:min-h-[20rem]">
+          <div
+            ref={scrollRef}
+            onScroll={handleScroll}
+            className="h-80 lg:h-auto lg:absolute lg:inset-0 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900/50 p-4 space-y-3"
+          >
+            {entries.length === 0 ? (
+              <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+                {t("transcript.empty")}
+              </div>
+            ) : (
+              entries.map((entry) => {
+                const isUser = entry.role === "user";
+                const Icon = isUser ? User : Bot;
+                return (
+                  <div
+                    key={entry.id}
+                    className={cn("flex flex-col animate-in fade-in duration-300", isUser ? "items-end" : "items-start")}
+                  >
+                    <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 mb-1">
+                      <Icon className="w-3 h-3" />
+                      <span className="font-medium">{isUser ? t("transcript.you") : t("transcript.assistant")}</span>
+                      <span>· {formatTime(entry.startedAt, intlLocale)}</span>
+                      {entry.typed && (
+                        <span className="flex items-center gap-1" title={t("transcript.typedTitle")}>
+                          · <Keyboard className="w-3 h-3" /> {t("transcript.typed")}
+                        </span>
+                      )}
+                    </div>
+                    <div
+                      className={cn(
+                        "max-w-[85%] rounded-lg px-3 py-2 text-sm",
+                        isUser
+                          ? "bg-brand-600 text-white"
+                          : "bg-white dark:bg-gray-800 text-gray-800 dark:text-gray-200 shadow-sm",
+                        !entry.isFinal && "opacity-70 italic",
+                      )}
+                    >
+                      {entry.text}
+                    </div>
+                  </div>
+                );
+              })
+            )}
+          </div>
+
+          {!followLatest && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => {
+                setFollowLatest(true);
+                scrollToBottom();
+              }}
+              className="absolute bottom-3 left-1/2 -translate-x-1/2 shadow-md"
+            >
+              <ArrowDown className="w-4 h-4 me-1" />
+              {t("transcript.latest")}
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,15 @@
+import { useMemo } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { PublishedAssistant } from "@shared/schema";
+import { useConfig } from "@/hooks/use-config";
+import { availableAssistants, type AssistantOption } from "@/lib/config";
+
+/**
+ * The configured assistants at once, joined by the published managed ones
+ * when the server lists them. Without the server only the configured remain.
+ */
+export function useAvailableAssistants(): AssistantOption[] {
+  const config = useConfig();
+  const { data: published } = useQuery<PublishedAssistant[]>({ queryKey: ["/api/assistants/published"] });
+  return useMemo(() => availableAssistants(config, published), [config, published]);
+}
@@ -0,0 +1,87 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import type { InsertUser, PublicUser } from "@shared/schema";
+import { apiRequest, getQueryFn, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// Strip the "401: " status prefix added by apiRequest for display
+function describeError(error: Error) {
+  return error.message.replace(/^\d{3}: /, "");
+}
+
+export function useAuth() {
+  const { toast } = useToast();
+
+  const {
+    data: user,
+    error,
+    isLoading,
+  } = useQuery<PublicUser | null, Error>({
+    queryKey: ["/api/user"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const loginMutation = useMutation<PublicUser, Error, InsertUser>({
+    mutationFn: async (credentials) => {
+      const res = await apiRequest("POST", "/api/login", credentials);
+      return await res.json();
+    },
+    onSuccess: (user) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error) => {
+      toast({
+        title: "Login failed",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const registerMutation = useMutation<PublicUser, Error, InsertUser>({
+    mutationFn: async (credentials) => {
+      const res = await apiRequest("POST", "/api/register", credentials);
+      return await res.json();
+    },
+    onSuccess: (created) => {
+      // Staff adding a colleague stay signed in as themselves
+      if (!user) {
+        queryClient.setQueryData(["/api/user"], created);
+      }
+      toast({ title: "Account created", description: created.username });
+    },
+    onError: (error) => {
+      toast({
+        title: "Registration failed",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const logoutMutation = useMutation<void, Error, void>({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/logout");
+    },
+    onSuccess: () => {
+      queryClient.setQueryData(["/api/user"], null);
+      // Drop every staff-only query cached for this session
+      queryClient.removeQueries({ predicate: (query) => query.queryKey[0] !== "/api/user" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Logout failed",
+        description: describeError(error),
+        variant: "destructive",
+      });
+    },
+  });
+
+  return {
+    user: user ?? null,
+    isLoading,
+    error,
+    loginMutation,
+    registerMutation,
+    logoutMutation,
+  };
+}
@@ -0,0 +1,201 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { CallOverrides, VoiceEngine } from "@/lib/voice";
+import {
+  initialCallState,
+  transition,
+  type CallEvent,
+  type CallState,
+} from "@/lib/call-machine";
+
+export interface CallRequest {
+  assistantId: string;
+  overrides?: CallOverrides;
+}
+
+interface CallSessionOptions {
+  engine: VoiceEngine | null;
+  /** Runs before connecting; resolve with a message to fail the call instead. */
+  prepare?: () => Promise<string | null>;
+  connectTimeoutMs?: number;
+  /** How long an interrupted call may try to recover before it is failed. */
+  recoveryWindowMs?: number;
+  /** Connection attempts per call, the first included. */
+  maxAttempts?: number;
+  onTransition?: (next: CallState, previous: CallState, event: CallEvent) => void;
+  /** Called with the provider's ID for the call once the engine reports it. */
+  onProviderCallId?: (providerCallId: string) => void;
+}
+
+// Providers do not always confirm a hang-up, so stop waiting after this long
+const ENDING_TIMEOUT_MS = 5000;
+
+/**
+ * Drives one call at a time through the call state machine. The engine's
+ * events and the session's own timers are fed in as machine events, and the
+ * side effects of each state (checking the mic, starting or stopping the
+ * engine) run when that state is entered.
+ */
+export function useCallSession({
+  engine,
+  prepare,
+  connectTimeoutMs = 15000,
+  recoveryWindowMs = 20000,
+  maxAttempts = 2,
+  onTransition,
+  onProviderCallId,
+}: CallSessionOptions) {
+  const [state, setState] = useState<CallState>(initialCallState);
+  const [duration, setDuration] = useState(0);
+  const stateRef = useRef(state);
+  const requestRef = useRef<CallRequest | null>(null);
+
+  // Kept in refs so the engine subscriptions below never go stale
+  const latest = useRef({ prepare, onTransition, onProviderCallId, maxAttempts, connectTimeoutMs });
+  latest.current = { prepare, onTransition, onProviderCallId, maxAttempts, connectTimeoutMs };
+
+  const dispatch = useCallback((event: CallEvent) => {
+    const previous = stateRef.current;
+    const next = transition(previous, event, { maxAttempts: latest.current.maxAttempts });
+    if (next === previous) return;
+    stateRef.current = next;
+    setState(next);
+    latest.current.onTransition?.(next, previous, event);
+  }, []);
+
+  useEffect(() => {
+    if (!engine) return;
+    const unsubscribe = [
+      engine.on("call-start", () => dispatch({ type: "connected", at: Date.now() })),
+      engine.on("call-end", () => dispatch({ type: "call-ended", at: Date.now() })),
+      engine.on("error", (error) => dispatch({ type: "error", message: error.message })),
+      engine.on("speech-start", () => dispatch({ type: "speech", role: "assistant", speaking: true })),
+      engine.on("speech-end", () => dispatch({ type: "speech", role: "assistant", speaking: false })),
+      // The assistant's turns already arrive as speech-start / speech-end
+      engine.on("speech-update", (update) => {
+        if (update.role === "user") {
+          dispatch({ type: "speech", role: "user", speaking: update.status === "started" });
+        }
+      }),
+      engine.on("connection", (update) => {
+        dispatch({ type: "network", state: update.state, reason: update.detail, at: Date.now() });
+      }),
+    ];
+    return () => unsubscribe.forEach((off) => off());
+  }, [engine, dispatch]);
+
+  // The browser's own view of connectivity; the machine ignores it outside a call
+  useEffect(() => {
+    const checkOnline = () => {
+      dispatch(
+        navigator.onLine
+          ? { type: "network", state: "stable", reason: "Browser back online", at: Date.now() }
+          : { type: "network", state: "interrupted", reason: "Browser went offline", at: Date.now() },
+      );
+    };
+    // Background tabs can miss online/offline events, so re-check on return
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "visible" && !navigator.onLine) checkOnline();
+    };
+    window.addEventListener("online", checkOnline);
+    window.addEventListener("offline", checkOnline);
+    document.addEventListener("visibilitychange", onVisibilityChange);
+    return () => {
+      window.removeEventListener("online", checkOnline);
+      window.removeEventListener("offline", checkOnline);
+      document.removeEventListener("visibilitychange", onVisibilityChange);
+    };
+  }, [dispatch]);
+
+  const status = state.status;
+  const attempt = state.status === "connecting" ? state.attempt : 0;
+
+  useEffect(() => {
+    if (status !== "requesting-mic") return;
+    let cancelled = false;
+    const prepareCall = latest.current.prepare ?? (async () => null);
+    prepareCall()
+      .then((problem) => {
+        if (cancelled) return;
+        dispatch(problem ? { type: "mic-failed", message: problem } : { type: "mic-ready" });
+      })
+      .catch((error) => {
+        if (!cancelled) dispatch({ type: "mic-failed", message: String(error) });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [status, dispatch]);
+
+  useEffect(() => {
+    if (status !== "connecting" || !engine || !requestRef.current) return;
+    let cancelled = false;
+    const { assistantId, overrides } = requestRef.current;
+
+    // A retry must tear down whatever the previous attempt left behind
+    if (attempt > 1) engine.stop();
+    engine.start(assistantId, overrides).then(
+      (providerCallId) => {
+        // A slow start from a cancelled or retried attempt must not claim the record
+        if (cancelled) return;
+        if (providerCallId) latest.current.onProviderCallId?.(providerCallId);
+      },
+      (error) => {
+        if (cancelled) return;
+        dispatch({ type: "start-failed", message: error instanceof Error ? error.message : String(error) });
+      },
+    );
+    const timer = setTimeout(() => dispatch({ type: "connect-timeout" }), latest.current.connectTimeoutMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [status, attempt, engine, dispatch]);
+
+  useEffect(() => {
+    if (status !== "ending" || !engine) return;
+    engine.stop();
+    const timer = setTimeout(() => dispatch({ type: "call-ended", at: Date.now() }), ENDING_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [status, engine, dispatch]);
+
+  // The transport reconnects on its own; give it a window before giving up
+  const interruptedSince =
+    state.status === "connected" && state.network.state === "interrupted" ? state.network.since : null;
+  useEffect(() => {
+    if (interruptedSince === null) return;
+    const remaining = Math.max(0, interruptedSince + recoveryWindowMs - Date.now());
+    const timer = setTimeout(() => dispatch({ type: "connection-lost" }), remaining);
+    return () => clearTimeout(timer);
+  }, [interruptedSince, recoveryWindowMs, dispatch]);
+
+  // A call that fails mid-connection or mid-interruption may still hold the
+  // provider's session
+  useEffect(() => {
+    if (status === "failed") engine?.stop();
+  }, [status, engine]);
+
+  const connectedAt = state.status === "connected" ? state.connectedAt : null;
+  useEffect(() => {
+    if (connectedAt === null) {
+      setDuration(0);
+      return;
+    }
+    const tick = () => setDuration(Math.floor((Date.now() - connectedAt) / 1000));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [connectedAt]);
+
+  const start = useCallback((request: CallRequest) => {
+    requestRef.current = request;
+    dispatch({ type: "start" });
+  }, [dispatch]);
+
+  const stop = useCallback(() => dispatch({ type: "hang-up" }), [dispatch]);
+  const reset = useCallback(() => dispatch({ type: "reset" }), [dispatch]);
+
+  return { state, duration, start, stop, reset };
+}
+
+export type CallSession = ReturnType<typeof useCallSession>;
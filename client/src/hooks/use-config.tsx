@@ -0,0 +1,60 @@
+import * as React from "react";
+import { Loader2 } from "lucide-react";
+import ConfigErrorScreen from "@/components/config-error";
+import { type AppConfig, ConfigError, loadConfig } from "@/lib/config";
+
+const ConfigContext = React.createContext<AppConfig | null>(null);
+
+type LoadState =
+  | { status: "loading" }
+  | { status: "ready"; config: AppConfig }
+  | { status: "error"; issues: string[] };
+
+export function ConfigProvider({ children }: { children: React.ReactNode }) {
+  const [state, setState] = React.useState<LoadState>({ status: "loading" });
+
+  React.useEffect(() => {
+    let cancelled = false;
+    loadConfig()
+      .then((config) => {
+        if (!cancelled) setState({ status: "ready", config });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        const issues =
+          error instanceof ConfigError
+            ? error.issues
+            : [error instanceof Error ? error.message : "Unknown configuration error"];
+        setState({ status: "error", issues });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (state.status === "loading") {
+    return (
+      <div className="min-h-screen w-full flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+
+  if (state.status === "error") {
+    return <ConfigErrorScreen issues={state.issues} />;
+  }
+
+  return (
+    <ConfigContext.Provider value={state.config}>
+      {children}
+    </ConfigContext.Provider>
+  );
+}
+
+export function useConfig() {
+  const config = React.useContext(ConfigContext);
+  if (!config) {
+    throw new Error("useConfig must be used within a ConfigProvider.");
+  }
+  return config;
+}
@@ -0,0 +1,77 @@
+import * as React from "react";
+import { DirectionProvider } from "@radix-ui/react-direction";
+import {
+  detectLocale,
+  isLocale,
+  localeInfo,
+  translate,
+  type Locale,
+  type MessageKey,
+  type MessageParams,
+  type TextDirection,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "vela-locale";
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  dir: TextDirection;
+  /** BCP 47 tag for `Intl` formatting in this locale. */
+  intlLocale: string;
+}
+
+const I18nContext = React.createContext<I18nContextValue | null>(null);
+
+// Storage can be unavailable (private mode, blocked cookies); fall back quietly
+function initialLocale(): Locale {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(stored)) return stored;
+  } catch {}
+  return detectLocale(navigator.languages ?? [navigator.language]);
+}
+
+export function I18nProvider({ children }: { children: React.ReactNode }) {
+  const [locale, setLocaleState] = React.useState<Locale>(initialLocale);
+  const { dir, intl } = localeInfo[locale];
+
+  // Before paint, so an Arabic page never flashes left-to-right
+  React.useLayoutEffect(() => {
+    document.documentElement.lang = locale;
+    document.documentElement.dir = dir;
+  }, [locale, dir]);
+
+  const setLocale = React.useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      localStorage.setItem(STORAGE_KEY, next);
+    } catch {}
+  }, []);
+
+  const value = React.useMemo<I18nContextValue>(
+    () => ({
+      locale,
+      setLocale,
+      t: (key, params) => translate(locale, key, params),
+      dir,
+      intlLocale: intl,
+    }),
+    [locale, setLocale, dir, intl],
+  );
+
+  return (
+    <I18nContext.Provider value={value}>
+      <DirectionProvider dir={dir}>{children}</DirectionProvider>
+    </I18nContext.Provider>
+  );
+}
+
+export function useI18n() {
+  const i18n = React.useContext(I18nContext);
+  if (!i18n) {
+    throw new Error("useI18n must be used within an I18nProvider.");
+  }
+  return i18n;
+}
@@ -0,0 +1,123 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  createLevelMeter,
+  describeMicrophoneError,
+  isMediaSupported,
+  listAudioDevices,
+  openMicrophone,
+  playTestTone,
+  stopStream,
+  type LevelMeter,
+  type MicrophoneProblem,
+} from "@/lib/audio-devices";
+
+type CheckStatus = "idle" | "requesting" | "active" | "error";
+
+export function useMicrophoneCheck() {
+  const [inputs, setInputs] = useState<MediaDeviceInfo[]>([]);
+  const [outputs, setOutputs] = useState<MediaDeviceInfo[]>([]);
+  const [inputId, setInputId] = useState<string>("");
+  const [outputId, setOutputId] = useState<string>("");
+  const [status, setStatus] = useState<CheckStatus>("idle");
+  const [problem, setProblem] = useState<MicrophoneProblem | null>(null);
+
+  const streamRef = useRef<MediaStream | null>(null);
+  const meterRef = useRef<LevelMeter | null>(null);
+  // Bumped by stop() so a getUserMedia that resolves late is discarded
+  const attemptRef = useRef(0);
+
+  const refreshDevices = useCallback(async () => {
+    if (!isMediaSupported()) return;
+    const devices = await listAudioDevices();
+    setInputs(devices.inputs);
+    setOutputs(devices.outputs);
+  }, []);
+
+  const stop = useCallback(() => {
+    attemptRef.current += 1;
+    meterRef.current?.close();
+    meterRef.current = null;
+    stopStream(streamRef.current);
+    streamRef.current = null;
+    setStatus((current) => (current === "error" ? current : "idle"));
+  }, []);
+
+  const start = useCallback(async (deviceId = inputId) => {
+    stop();
+    const attempt = attemptRef.current;
+    setStatus("requesting");
+    setProblem(null);
+
+    try {
+      const stream = await openMicrophone(deviceId || undefined);
+      if (attempt !== attemptRef.current) {
+        stopStream(stream);
+        return;
+      }
+      streamRef.current = stream;
+
+      meterRef.current = createLevelMeter(stream);
+
+      setStatus("active");
+      // Device labels are only exposed once permission is granted
+      await refreshDevices();
+    } catch (error) {
+      stopStream(streamRef.current);
+      streamRef.current = null;
+      setProblem(describeMicrophoneError(error));
+      setStatus("error");
+    }
+  }, [inputId, refreshDevices, stop]);
+
+  const selectInput = useCallback((deviceId: string) => {
+    setInputId(deviceId);
+    if (streamRef.current) {
+      start(deviceId);
+    }
+  }, [start]);
+
+  const testSpeaker = useCallback(async () => {
+    try {
+      await playTestTone(outputId || undefined);
+    } catch (error) {
+      setProblem({
+        kind: "unknown",
+        message: "Could not play the test tone on the selected speaker.",
+        fix: error instanceof Error ? error.message : "Pick another output device.",
+      });
+    }
+  }, [outputId]);
+
+  useEffect(() => {
+    refreshDevices();
+    if (!isMediaSupported()) return;
+    navigator.mediaDevices.addEventListener("devicechange", refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener("devicechange", refreshDevices);
+    };
+  }, [refreshDevices]);
+
+  useEffect(() => stop, [stop]);
+
+  // Polled by the level meter on each animation frame; kept out of React
+  // state so the page does not re-render 60 times a second.
+  const getLevel = useCallback(() => meterRef.current?.getLevel() ?? 0, []);
+
+  return {
+    inputs,
+    outputs,
+    inputId,
+    outputId,
+    selectInput,
+    setOutputId,
+    status,
+    problem,
+    setProblem,
+    getLevel,
+    start,
+    stop,
+    testSpeaker,
+  };
+}
+
+export type MicrophoneCheck = ReturnType<typeof useMicrophoneCheck>;
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef } from "react";
+import { createLevelMeter, openMicrophone, stopStream, type LevelMeter } from "@/lib/audio-devices";
+
+/**
+ * Opens a second, analysis-only handle on the microphone while `enabled`.
+ * Failures are swallowed: the call itself reports microphone problems, and
+ * a visualizer stuck at zero is the right degradation.
+ */
+export function useMicrophoneLevel(enabled: boolean, deviceId?: string) {
+  const meterRef = useRef<LevelMeter | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+
+    openMicrophone(deviceId || undefined)
+      .then((opened) => {
+        stream = opened;
+        if (cancelled) {
+          stopStream(opened);
+          return;
+        }
+        meterRef.current = createLevelMeter(opened);
+      })
+      .catch((error) => console.warn("Microphone level unavailable:", error));
+
+    return () => {
+      cancelled = true;
+      meterRef.current?.close();
+      meterRef.current = null;
+      stopStream(stream);
+    };
+  }, [enabled, deviceId]);
+
+  return useCallback(() => meterRef.current?.getLevel() ?? 0, []);
+}
@@ -0,0 +1,46 @@
+import { useEffect, useState } from "react";
+
+function isEditable(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName);
+}
+
+/**
+ * Tracks whether the spacebar is held while `enabled`. Typing in form
+ * fields is left alone, and losing window focus counts as a release so the
+ * microphone never stays open behind the user's back.
+ */
+export function usePushToTalk(enabled: boolean) {
+  const [talking, setTalking] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      setTalking(false);
+      return;
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isEditable(event.target)) return;
+      // Stops the space from also clicking whichever button has focus
+      event.preventDefault();
+      if (!event.repeat) setTalking(true);
+    };
+    const onKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== "Space" || isEditable(event.target)) return;
+      event.preventDefault();
+      setTalking(false);
+    };
+    const release = () => setTalking(false);
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    window.addEventListener("blur", release);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+      window.removeEventListener("blur", release);
+    };
+  }, [enabled]);
+
+  return talking;
+}
@@ -0,0 +1,142 @@
+export interface MicrophoneProblem {
+  kind: "denied" | "not-found" | "in-use" | "insecure" | "unsupported" | "unknown";
+  message: string;
+  /** What the user can do about it, in plain words. */
+  fix: string;
+}
+
+export function isMediaSupported() {
+  return typeof navigator !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+}
+
+export function describeMicrophoneError(error: unknown): MicrophoneProblem {
+  if (typeof window !== "undefined" && !window.isSecureContext) {
+    return {
+      kind: "insecure",
+      message: "Microphone access requires a secure (https) page.",
+      fix: "Open the demo over https or from localhost.",
+    };
+  }
+  if (!isMediaSupported()) {
+    return {
+      kind: "unsupported",
+      message: "This browser does not support microphone capture.",
+      fix: "Use a recent version of Chrome, Edge, Firefox or Safari.",
+    };
+  }
+
+  const name = error instanceof DOMException || error instanceof Error ? error.name : "";
+  switch (name) {
+    case "NotAllowedError":
+    case "SecurityError":
+      return {
+        kind: "denied",
+        message: "Microphone permission was denied.",
+        fix: "Click the camera/microphone icon in the address bar, allow the microphone for this site, then reload the page. On macOS also check System Settings → Privacy & Security → Microphone.",
+      };
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return {
+        kind: "not-found",
+        message: "No usable microphone was found.",
+        fix: "Plug in a microphone or headset, or pick another input device.",
+      };
+    case "NotReadableError":
+    case "AbortError":
+      return {
+        kind: "in-use",
+        message: "The microphone could not be started.",
+        fix: "Close other apps or tabs that may be using it (video calls, recorders), then try again.",
+      };
+    default:
+      return {
+        kind: "unknown",
+        message: error instanceof Error ? error.message : "Unknown microphone error.",
+        fix: "Check your microphone connection and browser permissions, then try again.",
+      };
+  }
+}
+
+export function openMicrophone(deviceId?: string) {
+  return navigator.mediaDevices.getUserMedia({
+    audio: deviceId ? { deviceId: { exact: deviceId } } : true,
+  });
+}
+
+export function stopStream(stream: MediaStream | null) {
+  stream?.getTracks().forEach((track) => track.stop());
+}
+
+/** Opens and immediately releases the microphone to confirm access. */
+export async function checkMicrophoneAccess(deviceId?: string): Promise<MicrophoneProblem | null> {
+  if (!isMediaSupported()) {
+    return describeMicrophoneError(null);
+  }
+  try {
+    stopStream(await openMicrophone(deviceId));
+    return null;
+  } catch (error) {
+    return describeMicrophoneError(error);
+  }
+}
+
+export async function listAudioDevices() {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return {
+    inputs: devices.filter((device) => device.kind === "audioinput"),
+    // Firefox and Safari do not expose output devices
+    outputs: devices.filter((device) => device.kind === "audiooutput"),
+  };
+}
+
+export interface LevelMeter {
+  /** Current input level between 0 and 1. */
+  getLevel(): number;
+  close(): void;
+}
+
+/** Measures a stream's loudness; cheap enough to poll every animation frame. */
+export function createLevelMeter(stream: MediaStream): LevelMeter {
+  const ctx = new AudioContext();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 512;
+  ctx.createMediaStreamSource(stream).connect(analyser);
+  const samples = new Float32Array(analyser.fftSize);
+
+  return {
+    getLevel() {
+      analyser.getFloatTimeDomainData(samples);
+      let sum = 0;
+      for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+      // Speech RMS rarely exceeds ~0.25; scale so normal talking fills the meter
+      return Math.min(1, Math.sqrt(sum / samples.length) * 4);
+    },
+    close() {
+      ctx.close();
+    },
+  };
+}
+
+type SinkableAudioContext = AudioContext & { setSinkId?: (id: string) => Promise<void> };
+
+/** Plays a short 440 Hz beep on the chosen output device. */
+export async function playTestTone(outputDeviceId?: string) {
+  const ctx: SinkableAudioContext = new AudioContext();
+  if (outputDeviceId && ctx.setSinkId) {
+    await ctx.setSinkId(outputDeviceId);
+  }
+
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  const now = ctx.currentTime;
+
+  oscillator.frequency.value = 440;
+  gain.gain.setValueAtTime(0.0001, now);
+  gain.gain.exponentialRampToValueAtTime(0.2, now + 0.05);
+  gain.gain.exponentialRampToValueAtTime(0.0001, now + 0.8);
+
+  oscillator.connect(gain).connect(ctx.destination);
+  oscillator.onended = () => ctx.close();
+  oscillator.start(now);
+  oscillator.stop(now + 0.8);
+}
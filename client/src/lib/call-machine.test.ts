@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import {
+  callTransitions,
+  initialCallState,
+  transition,
+  type CallEvent,
+  type CallState,
+  type CallStatus,
+} from "@/lib/call-machine";
+
+const connected: CallState = { status: "connected", connectedAt: 1_000, floor: "listening", network: { state: "stable" } };
+const interrupted: CallState = {
+  ...connected,
+  network: { state: "interrupted", reason: "ICE failed", since: 5_000 },
+};
+
+const sampleStates: Record<CallStatus, CallState> = {
+  idle: initialCallState,
+  "requesting-mic": { status: "requesting-mic" },
+  connecting: { status: "connecting", attempt: 1 },
+  connected,
+  ending: { status: "ending", connectedAt: 1_000, reason: "user-stopped" },
+  ended: { status: "ended", reason: "call-ended", durationSeconds: 4 },
+  failed: { status: "failed", reason: "error", message: "boom" },
+};
+
+const sampleEvents: Record<CallEvent["type"], CallEvent> = {
+  start: { type: "start" },
+  "mic-ready": { type: "mic-ready" },
+  "mic-failed": { type: "mic-failed", message: "Permission denied" },
+  connected: { type: "connected", at: 1_000 },
+  "connect-timeout": { type: "connect-timeout" },
+  "start-failed": { type: "start-failed", message: "No assistant" },
+  speech: { type: "speech", role: "user", speaking: true },
+  network: { type: "network", state: "degraded", reason: "High latency", at: 2_000 },
+  "connection-lost": { type: "connection-lost" },
+  "hang-up": { type: "hang-up" },
+  "call-ended": { type: "call-ended", at: 5_400 },
+  error: { type: "error", message: "boom" },
+  reset: { type: "reset" },
+};
+
+describe("transition", () => {
+  it.each<[string, CallState, CallEvent, CallState, number?]>([
+    ["starts from idle", initialCallState, { type: "start" }, { status: "requesting-mic" }],
+    ["connects once the mic is ready", { status: "requesting-mic" }, { type: "mic-ready" }, { status: "connecting", attempt: 1 }],
+    [
+      "fails when the mic is unavailable",
+      { status: "requesting-mic" },
+      { type: "mic-failed", message: "Permission denied" },
+      { status: "failed", reason: "mic-unavailable", message: "Permission denied" },
+    ],
+    ["cancels back to idle during the mic prompt", { status: "requesting-mic" }, { type: "hang-up" }, initialCallState],
+    [
+      "is connected when the provider says so",
+      { status: "connecting", attempt: 1 },
+      { type: "connected", at: 1_000 },
+      connected,
+    ],
+    [
+      "retries a timed-out attempt while attempts remain",
+      { status: "connecting", attempt: 1 },
+      { type: "connect-timeout" },
+      { status: "connecting", attempt: 2 },
+      2,
+    ],
+    [
+      "fails a timed-out last attempt",
+      { status: "connecting", attempt: 2 },
+      { type: "connect-timeout" },
+      { status: "failed", reason: "connect-timeout", message: "The call did not connect in time" },
+      2,
+    ],
+    [
+      "fails a start error without retries",
+      { status: "connecting", attempt: 1 },
+      { type: "start-failed", message: "No assistant" },
+      { status: "failed", reason: "start-failed", message: "No assistant" },
+    ],
+    [
+      "hangs up while connecting",
+      { status: "connecting", attempt: 1 },
+      { type: "hang-up" },
+      { status: "ending", connectedAt: null, reason: "user-stopped" },
+    ],
+    [
+      "gives the floor to a speaker",
+      connected,
+      { type: "speech", role: "assistant", speaking: true },
+      { ...connected, floor: "assistant-speaking" },
+    ],
+    [
+      "records an interruption",
+      connected,
+      { type: "network", state: "interrupted", reason: "ICE failed", at: 5_000 },
+      interrupted,
+    ],
+    [
+      "does not let a quality report mask an interruption",
+      interrupted,
+      { type: "network", state: "degraded", reason: "High latency", at: 6_000 },
+      interrupted,
+    ],
+    [
+      "recovers to stable",
+      interrupted,
+      { type: "network", state: "stable", reason: "Back online", at: 6_000 },
+      connected,
+    ],
+    [
+      "fails once an interruption outlasts recovery",
+      interrupted,
+      { type: "connection-lost" },
+      { status: "failed", reason: "network-lost", message: "Connection lost: ICE failed" },
+    ],
+    ["ignores a lost connection that already recovered", connected, { type: "connection-lost" }, connected],
+    [
+      "ends when the provider hangs up",
+      connected,
+      { type: "call-ended", at: 5_400 },
+      { status: "ended", reason: "call-ended", durationSeconds: 4 },
+    ],
+    [
+      "treats a provider hang-up mid-interruption as a network failure",
+      interrupted,
+      { type: "call-ended", at: 9_000 },
+      { status: "failed", reason: "network-lost", message: "Connection lost: ICE failed" },
+    ],
+    [
+      "fails on an error while connected",
+      connected,
+      { type: "error", message: "boom" },
+      { status: "failed", reason: "error", message: "boom" },
+    ],
+    [
+      "hangs up while connected",
+      connected,
+      { type: "hang-up" },
+      { status: "ending", connectedAt: 1_000, reason: "user-stopped" },
+    ],
+    [
+      "ends a hang-up once the provider confirms",
+      { status: "ending", connectedAt: 1_000, reason: "user-stopped" },
+      { type: "call-ended", at: 3_000 },
+      { status: "ended", reason: "user-stopped", durationSeconds: 2 },
+    ],
+    [
+      "has no duration for a call that never connected",
+      { status: "ending", connectedAt: null, reason: "user-stopped" },
+      { type: "call-ended", at: 3_000 },
+      { status: "ended", reason: "user-stopped", durationSeconds: null },
+    ],
+    ["starts again after an ended call", sampleStates.ended, { type: "start" }, { status: "requesting-mic" }],
+    ["resets a failed call", sampleStates.failed, { type: "reset" }, initialCallState],
+  ])("%s", (_name, state, event, expected, maxAttempts = 1) => {
+    expect(transition(state, event, { maxAttempts })).toEqual(expected);
+  });
+
+  // Every event a state does not list must come back as the very same object
+  const ignored = (Object.keys(sampleStates) as CallStatus[]).flatMap((status) =>
+    (Object.keys(sampleEvents) as CallEvent["type"][])
+      .filter((type) => !callTransitions[status].includes(type))
+      .map((type) => [status, type] as const),
+  );
+
+  it.each(ignored)("leaves %s untouched on %s", (status, type) => {
+    const state = sampleStates[status];
+    expect(transition(state, sampleEvents[type])).toBe(state);
+  });
+});
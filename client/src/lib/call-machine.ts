@@ -0,0 +1,177 @@
+import type { Speaker } from "@/lib/voice";
+
+/** Who holds the floor while connected. */
+export type Floor = "listening" | "user-speaking" | "assistant-speaking";
+
+export type FailureReason = "mic-unavailable" | "connect-timeout" | "start-failed" | "error" | "network-lost";
+
+export type NetworkHealth =
+  | { state: "stable" }
+  | { state: "degraded" | "interrupted"; reason: string; since: number };
+
+export type CallState =
+  | { status: "idle" }
+  | { status: "requesting-mic" }
+  | { status: "connecting"; attempt: number }
+  | { status: "connected"; connectedAt: number; floor: Floor; network: NetworkHealth }
+  | { status: "ending"; connectedAt: number | null; reason: string }
+  | { status: "ended"; reason: string; durationSeconds: number | null }
+  | { status: "failed"; reason: FailureReason; message: string };
+
+export type CallStatus = CallState["status"];
+
+export type CallEvent =
+  | { type: "start" }
+  | { type: "mic-ready" }
+  | { type: "mic-failed"; message: string }
+  | { type: "connected"; at: number }
+  | { type: "connect-timeout" }
+  | { type: "start-failed"; message: string }
+  | { type: "speech"; role: Speaker; speaking: boolean }
+  | { type: "network"; state: NetworkHealth["state"]; reason: string; at: number }
+  /** An interruption outlasted the recovery window. */
+  | { type: "connection-lost" }
+  | { type: "hang-up" }
+  | { type: "call-ended"; at: number }
+  | { type: "error"; message: string }
+  | { type: "reset" };
+
+export interface CallMachineOptions {
+  /** Connection attempts per call, the first included. */
+  maxAttempts: number;
+}
+
+export const defaultCallMachineOptions: CallMachineOptions = { maxAttempts: 1 };
+
+export const initialCallState: CallState = { status: "idle" };
+
+/** Events each state reacts to; anything else leaves the state untouched. */
+export const callTransitions: { [S in CallStatus]: readonly CallEvent["type"][] } = {
+  idle: ["start"],
+  "requesting-mic": ["mic-ready", "mic-failed", "hang-up"],
+  connecting: ["connected", "connect-timeout", "start-failed", "error", "hang-up"],
+  connected: ["speech", "network", "connection-lost", "hang-up", "call-ended", "error"],
+  ending: ["call-ended"],
+  ended: ["start", "reset"],
+  failed: ["start", "reset"],
+};
+
+export function canTransition(state: CallState, event: CallEvent["type"]) {
+  return callTransitions[state.status].includes(event);
+}
+
+function secondsBetween(from: number | null, to: number) {
+  return from === null ? null : Math.max(0, Math.round((to - from) / 1000));
+}
+
+// A failed attempt reconnects while attempts remain, otherwise the call fails
+function retryOrFail(
+  attempt: number,
+  reason: FailureReason,
+  message: string,
+  options: CallMachineOptions,
+): CallState {
+  if (attempt < options.maxAttempts) {
+    return { status: "connecting", attempt: attempt + 1 };
+  }
+  return { status: "failed", reason, message };
+}
+
+function nextNetwork(network: NetworkHealth, event: Extract<CallEvent, { type: "network" }>): NetworkHealth {
+  if (event.state === "stable") return { state: "stable" };
+  // Poor quality reports must not mask an ongoing interruption
+  if (network.state === "interrupted" && event.state === "degraded") return network;
+  if (network.state === event.state) return network;
+  return { state: event.state, reason: event.reason, since: event.at };
+}
+
+function nextFloor(floor: Floor, role: Speaker, speaking: boolean): Floor {
+  if (speaking) return role === "user" ? "user-speaking" : "assistant-speaking";
+  const current = role === "user" ? "user-speaking" : "assistant-speaking";
+  return floor === current ? "listening" : floor;
+}
+
+/**
+ * Pure transition function. Returns the same object when the event does not
+ * apply, so callers can detect no-ops with `===`. Late provider events (a
+ * `call-end` after an error, say) therefore cannot overwrite a final state.
+ */
+export function transition(
+  state: CallState,
+  event: CallEvent,
+  options: CallMachineOptions = defaultCallMachineOptions,
+): CallState {
+  if (!canTransition(state, event.type)) return state;
+
+  switch (state.status) {
+    case "idle":
+    case "ended":
+    case "failed":
+      return event.type === "start" ? { status: "requesting-mic" } : initialCallState;
+
+    case "requesting-mic":
+      switch (event.type) {
+        case "mic-ready":
+          return { status: "connecting", attempt: 1 };
+        case "mic-failed":
+          return { status: "failed", reason: "mic-unavailable", message: event.message };
+        default:
+          // Nothing has been started yet, so cancelling has nothing to end
+          return initialCallState;
+      }
+
+    case "connecting":
+      switch (event.type) {
+        case "connected":
+          return { status: "connected", connectedAt: event.at, floor: "listening", network: { state: "stable" } };
+        case "connect-timeout":
+          return retryOrFail(state.attempt, "connect-timeout", "The call did not connect in time", options);
+        case "start-failed":
+          return retryOrFail(state.attempt, "start-failed", event.message, options);
+        case "error":
+          return retryOrFail(state.attempt, "error", event.message, options);
+        default:
+          return { status: "ending", connectedAt: null, reason: "user-stopped" };
+      }
+
+    case "connected":
+      switch (event.type) {
+        case "speech": {
+          const floor = nextFloor(state.floor, event.role, event.speaking);
+          return floor === state.floor ? state : { ...state, floor };
+        }
+        case "network": {
+          const network = nextNetwork(state.network, event);
+          return network === state.network ? state : { ...state, network };
+        }
+        case "connection-lost":
+          if (state.network.state !== "interrupted") return state;
+          return { status: "failed", reason: "network-lost", message: `Connection lost: ${state.network.reason}` };
+        case "call-ended":
+          // The provider hanging up mid-interruption is a network failure, not a normal end
+          if (state.network.state === "interrupted") {
+            return { status: "failed", reason: "network-lost", message: `Connection lost: ${state.network.reason}` };
+          }
+          return {
+            status: "ended",
+            reason: "call-ended",
+            durationSeconds: secondsBetween(state.connectedAt, event.at),
+          };
+        case "error":
+          if (state.network.state === "interrupted") {
+            return { status: "failed", reason: "network-lost", message: `${event.message} (${state.network.reason})` };
+          }
+          return { status: "failed", reason: "error", message: event.message };
+        default:
+          return { status: "ending", connectedAt: state.connectedAt, reason: "user-stopped" };
+      }
+
+    case "ending":
+      if (event.type !== "call-ended") return state;
+      return {
+        status: "ended",
+        reason: state.reason,
+        durationSeconds: secondsBetween(state.connectedAt, event.at),
+      };
+  }
+}
@@ -0,0 +1,90 @@
+import {
+  CALL_TOKEN_HEADER,
+  type CreatedCall,
+  type EndCall,
+  type InsertCall,
+  type InsertTranscriptSegment,
+} from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { callLog } from "@/lib/log-store";
+import type { TurnTiming } from "@/lib/latency";
+
+/**
+ * Mirrors one call to the API. Requests are chained so the server sees them
+ * in order, and failures only go to the call log: losing the record must
+ * never break a live demo.
+ */
+export interface RecordedCall {
+  id: number;
+  /** Proves to the server that this browser created the call. */
+  token: string;
+}
+
+export class CallRecorder {
+  private queue: Promise<RecordedCall | null>;
+  private ended = false;
+
+  constructor(call: InsertCall) {
+    this.queue = apiRequest("POST", "/api/calls", call)
+      .then((res) => res.json())
+      .then((created: CreatedCall) => ({ id: created.id, token: created.recorderToken }))
+      .catch((error) => {
+        callLog.add({
+          level: "warn",
+          source: "network",
+          message: "Call will not be recorded",
+          payload: { error: String(error) },
+        });
+        return null;
+      });
+  }
+
+  private enqueue(path: string, body: unknown) {
+    this.queue = this.queue.then(async (recorded) => {
+      if (recorded === null) return null;
+      try {
+        await apiRequest("POST", `/api/calls/${recorded.id}${path}`, body, { [CALL_TOKEN_HEADER]: recorded.token });
+      } catch (error) {
+        callLog.add({
+          level: "warn",
+          source: "network",
+          message: `Failed to record ${path} for call ${recorded.id}`,
+          payload: { error: String(error) },
+        });
+      }
+      return recorded;
+    });
+  }
+
+  event(type: string, payload?: unknown) {
+    if (this.ended) return;
+    this.enqueue("/events", { type, payload, occurredAt: new Date().toISOString() });
+  }
+
+  transcript(segment: Pick<InsertTranscriptSegment, "role" | "text">) {
+    if (this.ended) return;
+    this.enqueue("/transcript", { ...segment, spokenAt: new Date().toISOString() });
+  }
+
+  turn(timing: TurnTiming) {
+    if (this.ended) return;
+    this.enqueue("/turns", timing);
+  }
+
+  /** Ties the record to the provider's call so its server events merge in. */
+  link(providerCallId: string) {
+    this.enqueue("/provider", { providerCallId });
+  }
+
+  /** Closes the record. Later calls, and events after it, are ignored. */
+  end(end: EndCall) {
+    if (this.ended) return;
+    this.ended = true;
+    this.enqueue("/end", end);
+  }
+
+  /** Resolves with the stored call and its token once the record exists, or null. */
+  get recorded() {
+    return this.queue;
+  }
+}
@@ -0,0 +1,56 @@
+import { callerContextSchemaWithMessages, type CallerContext, type CallerContextIssue } from "@shared/schema";
+import type { CallOverrides } from "@/lib/voice";
+
+/** Names the assistant's prompts can reference as `{{prospectName}}` etc. */
+export const callerVariables = ["prospectName", "company", "useCase"] as const;
+export type CallerVariable = (typeof callerVariables)[number];
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Problems with a `{{placeholder}}` in the first message. */
+export type PlaceholderIssue = "placeholderUnknown" | "placeholderBlank";
+
+const placeholderIssueMessages: Record<PlaceholderIssue, (name: string) => string> = {
+  placeholderUnknown: (name) => `Unknown placeholder {{${name}}}`,
+  placeholderBlank: (name) => `Fill in ${name} or remove {{${name}}} from the first message`,
+};
+
+export function isCallerVariable(name: string): name is CallerVariable {
+  return (callerVariables as readonly string[]).includes(name);
+}
+
+/**
+ * The caller-details form's schema with its messages taken from `message`
+ * and `placeholderMessage`; English by default. A blank placeholder is always
+ * one of `callerVariables`.
+ */
+export function callerContextFormSchemaWithMessages(
+  message?: (issue: CallerContextIssue) => string,
+  placeholderMessage: (issue: PlaceholderIssue, name: string) => string = (issue, name) =>
+    placeholderIssueMessages[issue](name),
+) {
+  // A greeting that names a blank field would be read out with a gap in it
+  return callerContextSchemaWithMessages(message).superRefine((values, ctx) => {
+    for (const [, name] of Array.from((values.firstMessage ?? "").matchAll(PLACEHOLDER))) {
+      if (!isCallerVariable(name)) {
+        ctx.addIssue({ code: "custom", path: ["firstMessage"], message: placeholderMessage("placeholderUnknown", name) });
+      } else if (!values[name]) {
+        ctx.addIssue({ code: "custom", path: ["firstMessage"], message: placeholderMessage("placeholderBlank", name) });
+      }
+    }
+  });
+}
+
+/** Drops empty fields so nothing blank is stored or sent. */
+export function compactCallerContext(values: CallerContext): CallerContext | null {
+  const entries = Object.entries(values).filter(([, value]) => value);
+  return entries.length > 0 ? Object.fromEntries(entries) : null;
+}
+
+export function toCallOverrides(context: CallerContext | null): CallOverrides | undefined {
+  if (!context) return undefined;
+  const variableValues = Object.fromEntries(
+    callerVariables.flatMap((name) => (context[name] ? [[name, context[name]]] : [])),
+  );
+  return { variableValues, firstMessage: context.firstMessage };
+}
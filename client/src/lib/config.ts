@@ -0,0 +1,142 @@
+import { z } from "zod";
+import type { PublishedAssistant } from "@shared/schema";
+import { languageCodes, languageTitle, type LanguageCode } from "./languages";
+import { paletteSchema } from "./theme";
+
+export const appConfigSchema = z.object({
+  voiceEngine: z.enum(["vapi", "mock"]).default("vapi"),
+  vapiPublicKey: z.string().trim().min(1, "Vapi public key is missing"),
+  vapiAssistantId: z.string().trim().min(1, "Vapi assistant ID is missing"),
+  /** Language the default assistant speaks. */
+  defaultLanguage: z.enum(languageCodes).default("EN"),
+  /** Per-language assistants; languages without one cannot be selected. */
+  vapiAssistants: z
+    .record(z.enum(languageCodes), z.string().trim().min(1, "Vapi assistant IDs cannot be empty"))
+    .default({}),
+  /** Brand colors layered over the built-in theme; see `lib/theme.ts`. */
+  palette: paletteSchema.optional(),
+});
+
+export type AppConfig = z.infer<typeof appConfigSchema>;
+
+export class ConfigError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid application config: ${issues.join("; ")}`);
+    this.name = "ConfigError";
+  }
+}
+
+// Build-time values baked in by Vite from .env
+function readEnvConfig(): Partial<AppConfig> {
+  return {
+    voiceEngine: import.meta.env.VITE_VOICE_ENGINE as AppConfig["voiceEngine"] | undefined,
+    vapiPublicKey: import.meta.env.VITE_VAPI_PUBLIC_KEY,
+    vapiAssistantId: import.meta.env.VITE_VAPI_ASSISTANT_ID,
+    defaultLanguage: import.meta.env.VITE_DEFAULT_LANGUAGE as LanguageCode | undefined,
+    vapiAssistants: parseJsonEnv("VITE_VAPI_ASSISTANTS", import.meta.env.VITE_VAPI_ASSISTANTS),
+    palette: parseJsonEnv("VITE_PALETTE", import.meta.env.VITE_PALETTE),
+  };
+}
+
+// VITE_VAPI_ASSISTANTS holds a JSON object such as {"FR":"<id>","TN":"<id>"};
+// VITE_PALETTE one such as {"light":{"brand-600":"160 84% 39%"}}.
+// The schema checks the contents.
+function parseJsonEnv(name: string, raw: string | undefined) {
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new ConfigError([`${name} is not valid JSON`]);
+  }
+}
+
+// Deploy-time overrides served next to index.html, so one build can be
+// shipped to several customers. Only an absent file (a 404, the dev server's
+// index.html fallback, or no server at all) means "no overrides"; a file that
+// is there but broken is reported like any other bad config.
+async function readRuntimeConfig(): Promise<Partial<AppConfig>> {
+  let res: Response;
+  try {
+    res = await fetch("/config.json", { cache: "no-store" });
+  } catch {
+    return {};
+  }
+  const contentType = res.headers.get("content-type") ?? "";
+  if (!res.ok || contentType.includes("text/html")) {
+    return {};
+  }
+
+  let body: unknown;
+  try {
+    body = await res.json();
+  } catch {
+    throw new ConfigError(["/config.json is not valid JSON"]);
+  }
+  const result = appConfigSchema.partial().safeParse(body);
+  if (!result.success) {
+    throw new ConfigError(
+      result.error.issues.map((issue) => `/config.json ${issue.path.join(".") || "file"}: ${issue.message}`),
+    );
+  }
+  return result.data;
+}
+
+function withoutEmpty(config: Partial<AppConfig>): Partial<AppConfig> {
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined && value !== ""),
+  );
+}
+
+// The mock engine never talks to Vapi, so it runs without credentials
+const mockDefaults: Partial<AppConfig> = {
+  vapiPublicKey: "mock-public-key",
+  vapiAssistantId: "mock-assistant",
+  vapiAssistants: Object.fromEntries(
+    languageCodes.map((code) => [code, `mock-assistant-${code.toLowerCase()}`]),
+  ),
+};
+
+export async function loadConfig(): Promise<AppConfig> {
+  const merged = {
+    ...withoutEmpty(readEnvConfig()),
+    ...withoutEmpty(await readRuntimeConfig()),
+  };
+  if (merged.voiceEngine === "mock") {
+    Object.assign(merged, { ...mockDefaults, ...merged });
+  }
+
+  const result = appConfigSchema.safeParse(merged);
+  if (!result.success) {
+    throw new ConfigError(result.error.issues.map((issue) => issue.message));
+  }
+  return result.data;
+}
+
+export interface AssistantOption {
+  assistantId: string;
+  language: LanguageCode;
+  /** Set for assistants managed in the app; configured ones go by their language. */
+  name: string | null;
+}
+
+/**
+ * Assistants calls can use: the configured ones, the default included, then
+ * the published managed ones in languages the demo offers.
+ */
+export function availableAssistants(config: AppConfig, published: PublishedAssistant[] = []): AssistantOption[] {
+  const configured = { [config.defaultLanguage]: config.vapiAssistantId, ...config.vapiAssistants };
+  const options: AssistantOption[] = (Object.entries(configured) as [LanguageCode, string][]).map(
+    ([language, assistantId]) => ({ assistantId, language, name: null }),
+  );
+  for (const assistant of published) {
+    const language = languageCodes.find((code) => code === assistant.language);
+    if (!language || options.some((option) => option.assistantId === assistant.providerAssistantId)) continue;
+    options.push({ assistantId: assistant.providerAssistantId, language, name: assistant.name });
+  }
+  return options;
+}
+
+/** How staff pages name an assistant. */
+export function assistantLabel(option: AssistantOption) {
+  return option.name ?? `${languageTitle(option.language)} assistant`;
+}
@@ -0,0 +1,85 @@
+// RFC 4180 with the usual spreadsheet exports in mind: quoted fields may hold
+// the delimiter, line breaks and doubled quotes, and Excel in many European
+// locales separates with semicolons instead of commas.
+
+export interface CsvRecord {
+  /** Line the record starts on; quoted line breaks make records span lines. */
+  line: number;
+  fields: string[];
+}
+
+export interface CsvRow {
+  line: number;
+  /** Cells keyed by column; short rows leave the missing cells blank. */
+  cells: Record<string, string>;
+}
+
+export interface CsvTable {
+  columns: string[];
+  rows: CsvRow[];
+}
+
+function detectDelimiter(text: string) {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const count = (char: string) => firstLine.split(char).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+export function parseCsvRecords(text: string, delimiter = detectDelimiter(text)): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        // A "\r\n" pair counts once, at its "\n"
+        if (char === "\n" || (char === "\r" && text[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push({ line: recordLine, fields: record });
+      record = [];
+      field = "";
+      recordLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, fields: record });
+  }
+  // Blank lines, often a trailing one, carry no data
+  return records.filter(({ fields }) => fields.some((value) => value.trim() !== ""));
+}
+
+/** Reads a CSV whose first line names the columns. Unnamed columns are dropped. */
+export function parseCsv(text: string): CsvTable {
+  const [header, ...records] = parseCsvRecords(text.replace(/^\uFEFF/, ""));
+  const columns = (header?.fields ?? []).map((name) => name.trim());
+  const named = columns.flatMap((name, index) => (name ? [[name, index] as const] : []));
+  return {
+    columns: named.map(([name]) => name),
+    rows: records.map(({ line, fields }) => ({
+      line,
+      cells: Object.fromEntries(named.map(([name, index]) => [name, fields[index] ?? ""])),
+    })),
+  };
+}
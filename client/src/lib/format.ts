@@ -0,0 +1,30 @@
+// `locale` is a BCP 47 tag; leaving it out uses the browser's own locale
+
+export function formatDuration(seconds: number, locale?: string) {
+  const twoDigits = new Intl.NumberFormat(locale, { minimumIntegerDigits: 2, useGrouping: false });
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${twoDigits.format(mins)}:${twoDigits.format(secs)}`;
+}
+
+export function formatDateTime(value: string | Date, locale?: string) {
+  return new Date(value).toLocaleString(locale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+export function formatTime(value: string | Date, locale?: string) {
+  return new Date(value).toLocaleTimeString(locale);
+}
+
+export function formatLatency(ms: number, locale?: string) {
+  const [value, unit, digits] = ms < 1000 ? [Math.round(ms), "millisecond", 0] : [ms / 1000, "second", 1];
+  return new Intl.NumberFormat(locale, {
+    style: "unit",
+    unit,
+    unitDisplay: "short",
+    minimumFractionDigits: digits,
+    maximumFractionDigits: digits,
+  }).format(value);
+}
@@ -0,0 +1,187 @@
+import type { Catalog } from "./types";
+
+export const ar: Catalog = {
+  "header.systemReady": "النظام جاهز",
+  "header.staff": "الفريق",
+  "header.language": "لغة الموقع",
+
+  "theme.label": "سمة الألوان",
+  "theme.light": "فاتح",
+  "theme.dark": "داكن",
+  "theme.system": "حسب النظام",
+
+  "banner.title": "مرحبًا بكم في Vela AI",
+  "banner.subtitle": "اكتشفوا تقنيتنا الصوتية متعددة اللغات المعتمدة على الذكاء الاصطناعي",
+  "banner.cta": "اضغطوا على «بدء المكالمة» أدناه لبدء العرض التجريبي",
+
+  "network.title": "الاتصال غير مستقر",
+  "network.interrupted": "جارٍ إعادة الاتصال؛ ستنتهي المكالمة إذا لم يعد الاتصال قريبًا.",
+  "network.degraded": "قد يتقطع صوت المساعد أو لا يفهم ما تقولونه.",
+
+  "status.connected": "المكالمة جارية...",
+  "status.requestingMic": "جارٍ التحقق من الميكروفون...",
+  "status.connecting": "جارٍ الاتصال...",
+  "status.reconnecting": "جارٍ إعادة الاتصال (المحاولة {attempt})...",
+  "status.ending": "جارٍ إنهاء المكالمة...",
+  "status.micUnavailable": "الميكروفون غير متاح",
+  "status.connectionError": "خطأ في الاتصال",
+  "status.ended": "انتهت المكالمة",
+  "status.endedAfter": "انتهت المكالمة ({duration})",
+  "status.ready": "جاهز للاتصال",
+
+  "failure.notInitialized": "المساعد الصوتي غير جاهز بعد. أعيدوا تحميل الصفحة وحاولوا مرة أخرى.",
+  "failure.offline": "يبدو أنكم غير متصلين بالإنترنت. تحققوا من الاتصال وحاولوا مرة أخرى.",
+  "failure.connectTimeout": "لم يتم الاتصال في الوقت المحدد.",
+  "failure.networkLost": "انقطع الاتصال وتعذرت استعادته.",
+
+  "latency.summary": "زمن الاستجابة: الوسيط {median} · p95 {p95} ({turns})",
+  "latency.turns": "{count} دور",
+  "latency.turns_one": "دور واحد",
+  "latency.turns_two": "دوران",
+  "latency.turns_few": "{count} أدوار",
+  "latency.turns_many": "{count} دورًا",
+
+  "call.assistant": "المساعد باللغة {language}",
+  "call.duration": "المدة: {duration}",
+  "call.reconnecting": "(جارٍ إعادة الاتصال...)",
+
+  "floor.assistant": "المساعد يتحدث...",
+  "floor.user": "أنتم تتحدثون",
+  "floor.holdSpace": "دوركم: اضغطوا مطولًا على المسافة للتحدث",
+  "floor.muted": "دوركم، لكن الميكروفون مكتوم",
+  "floor.listening": "دوركم: المساعد يستمع",
+
+  "controls.start": "بدء المكالمة",
+  "controls.stop": "إنهاء المكالمة",
+  "controls.connecting": "جارٍ الاتصال...",
+  "controls.ending": "جارٍ الإنهاء...",
+  "controls.mute": "كتم الميكروفون",
+  "controls.unmute": "إلغاء الكتم",
+  "controls.pushToTalk": "اضغط للتحدث (اضغط مطولًا على المسافة)",
+
+  "typed.placeholder": "اكتبوا رسالة إلى المساعد...",
+  "typed.placeholderIdle": "ابدؤوا مكالمة لإرسال رسائل مكتوبة",
+  "typed.label": "رسالة لإرسالها أثناء المكالمة",
+  "typed.send": "إرسال",
+
+  "callerForm.title": "بيانات المتصل",
+  "callerForm.prospectName": "اسم العميل المحتمل",
+  "callerForm.company": "الشركة",
+  "callerForm.useCase": "حالة الاستخدام",
+  "callerForm.useCasePlaceholder": "دعم للمكالمات الواردة لمشغل اتصالات، معظمها أسئلة عن الفواتير",
+  "callerForm.firstMessage": "الرسالة الأولى",
+  "callerForm.firstMessageHint": "اتركوها فارغة للإبقاء على تحية المساعد. يمكنكم استخدام {variables}.",
+  "callerForm.firstMessagePlaceholder": "مرحبًا {{prospectName}}، شكرًا لتجربتكم Vela. كيف يمكنني مساعدة {{company}} اليوم؟",
+  "callerForm.error.prospectNameTooLong": "يجب ألا يتجاوز الاسم 80 حرفًا",
+  "callerForm.error.companyTooLong": "يجب ألا يتجاوز اسم الشركة 120 حرفًا",
+  "callerForm.error.useCaseTooLong": "يجب ألا تتجاوز حالة الاستخدام 500 حرف",
+  "callerForm.error.firstMessageTooLong": "يجب ألا تتجاوز الرسالة الأولى 500 حرف",
+  "callerForm.error.placeholderUnknown": "متغير غير معروف: {placeholder}",
+  "callerForm.error.placeholderBlank": "املؤوا {field} أو احذفوا {placeholder} من الرسالة الأولى",
+
+  "lead.title": "هل تريدون معرفة المزيد؟",
+  "lead.description": "اتركوا بياناتكم وسيتواصل معكم فريقنا بخصوص حالة الاستخدام الخاصة بكم.",
+  "lead.name": "الاسم",
+  "lead.email": "البريد الإلكتروني",
+  "lead.company": "الشركة",
+  "lead.phone": "الهاتف",
+  "lead.interest": "ما الذي يهمكم؟",
+  "lead.interestPlaceholder": "تذكيرات صادرة بالعربية والفرنسية، حوالي 2000 مكالمة شهريًا",
+  "lead.skip": "لا، شكرًا",
+  "lead.submit": "إرسال بياناتي",
+  "lead.saved": "شكرًا، سنتواصل معكم",
+  "lead.savedBody": "وصلت بياناتكم إلى فريقنا.",
+  "lead.failed": "تعذر إرسال بياناتكم. حاولوا مرة أخرى.",
+  "lead.reopen": "اتركوا بياناتكم",
+  "lead.error.nameRequired": "الاسم مطلوب",
+  "lead.error.nameTooLong": "يجب ألا يتجاوز الاسم 80 حرفًا",
+  "lead.error.emailInvalid": "أدخلوا بريدًا إلكترونيًا صالحًا",
+  "lead.error.companyTooLong": "يجب ألا يتجاوز اسم الشركة 120 حرفًا",
+  "lead.error.phoneTooLong": "يجب ألا يتجاوز رقم الهاتف 40 حرفًا",
+  "lead.error.phoneInvalid": "أدخلوا رقم هاتف صالحًا",
+  "lead.error.interestTooLong": "يجب ألا يتجاوز هذا الحقل 500 حرف",
+
+  "audioCheck.title": "فحص الصوت",
+  "audioCheck.microphone": "الميكروفون",
+  "audioCheck.speaker": "مكبر الصوت",
+  "audioCheck.systemDefault": "الافتراضي في النظام",
+  "audioCheck.speakNow": "تحدثوا الآن: يجب أن يتحرك الشريط",
+  "audioCheck.inputLevel": "مستوى الإدخال",
+  "audioCheck.levelLabel": "مستوى إدخال الميكروفون",
+  "audioCheck.testMic": "اختبار الميكروفون",
+  "audioCheck.stopTest": "إيقاف الاختبار",
+  "audioCheck.playTone": "تشغيل نغمة اختبار",
+
+  "micProblem.insecure.message": "يتطلب الوصول إلى الميكروفون صفحة آمنة (https).",
+  "micProblem.insecure.fix": "افتحوا العرض عبر https أو من localhost.",
+  "micProblem.unsupported.message": "هذا المتصفح لا يدعم التقاط الصوت من الميكروفون.",
+  "micProblem.unsupported.fix": "استخدموا إصدارًا حديثًا من Chrome أو Edge أو Firefox أو Safari.",
+  "micProblem.denied.message": "تم رفض إذن الميكروفون.",
+  "micProblem.denied.fix": "اضغطوا على أيقونة الكاميرا/الميكروفون في شريط العنوان، واسمحوا باستخدام الميكروفون لهذا الموقع، ثم أعيدوا تحميل الصفحة. على macOS تحققوا أيضًا من إعدادات النظام ← الخصوصية والأمان ← الميكروفون.",
+  "micProblem.not-found.message": "لم يتم العثور على ميكروفون صالح.",
+  "micProblem.not-found.fix": "وصلوا ميكروفونًا أو سماعة رأس، أو اختاروا جهاز إدخال آخر.",
+  "micProblem.in-use.message": "تعذر تشغيل الميكروفون.",
+  "micProblem.in-use.fix": "أغلقوا التطبيقات أو علامات التبويب التي قد تستخدمه (مكالمات الفيديو، برامج التسجيل)، ثم حاولوا مرة أخرى.",
+  "micProblem.unknown.message": "تعذر فتح الميكروفون.",
+  "micProblem.unknown.fix": "تحققوا من توصيل الميكروفون وأذونات المتصفح، ثم حاولوا مرة أخرى.",
+
+  "visualizer.label": "مستويات الصوت المباشرة للمساعد ولكم",
+  "visualizer.assistant": "المساعد",
+  "visualizer.you": "أنتم",
+
+  "transcript.title": "النص المباشر",
+  "transcript.empty": "ستظهر المحادثة هنا عند بدء المكالمة...",
+  "transcript.you": "أنتم",
+  "transcript.assistant": "المساعد",
+  "transcript.typed": "مكتوبة",
+  "transcript.typedTitle": "رسالة مكتوبة",
+  "transcript.latest": "الأحدث",
+
+  "log.title": "سجل المكالمة",
+  "log.clear": "مسح",
+  "log.search": "البحث في السجل...",
+  "log.empty": "سيظهر سجل المكالمة هنا...",
+  "log.noMatch": "لا توجد سجلات مطابقة للفلاتر الحالية.",
+  "log.level.debug": "تصحيح",
+  "log.level.info": "معلومة",
+  "log.level.success": "نجاح",
+  "log.level.warn": "تحذير",
+  "log.level.error": "خطأ",
+
+  "languages.title": "دعم متعدد اللغات",
+  "languages.subtitle": "يتحدث مساعدنا الذكي بطلاقة بعدة لغات. اختاروا علمًا لتحديد من يرد على مكالمتكم.",
+  "languages.tunisianTitle": "متخصص في اللهجة التونسية",
+  "languages.tunisianBody": "دعم كامل لجميع اللهجات العربية والتنوعات الإقليمية",
+  "languages.comingSoon": "{language} (قريبًا)",
+  "languages.assistant": "المساعد",
+
+  "language.EN": "الإنجليزية",
+  "language.ES": "الإسبانية",
+  "language.FR": "الفرنسية",
+  "language.DE": "الألمانية",
+  "language.CN": "الصينية",
+  "language.AR": "العربية",
+  "language.IT": "الإيطالية",
+  "language.JP": "اليابانية",
+  "language.TN": "التونسية",
+
+  "hero.titleStart": "اكتشفوا مستقبل",
+  "hero.titleHighlight": "المساعدين الصوتيين بالذكاء الاصطناعي",
+  "hero.body": "اكتشفوا مساعدنا الصوتي المتطور متعدد اللغات. أجروا محادثات طبيعية بعدة لغات مع فهم متقدم وردود قريبة من البشر.",
+
+  "capability.inbound.title": "المكالمات الواردة",
+  "capability.inbound.desc": "معالجة استفسارات العملاء الواردة",
+  "capability.outbound.title": "المكالمات الصادرة",
+  "capability.outbound.desc": "تواصل استباقي مع العملاء",
+  "capability.service.title": "خدمة العملاء",
+  "capability.service.desc": "دعم ومساعدة على مدار الساعة",
+  "capability.leads.title": "تأهيل العملاء المحتملين",
+  "capability.leads.desc": "تقييم وتوجيه ذكي للعملاء المحتملين",
+
+  "footer.contact": "تواصلوا مع Vela AI",
+  "footer.copyright": "© 2025 Vela AI. مدعوم بتقنيات متقدمة للذكاء الصوتي.",
+
+  "notFound.title": "404 الصفحة غير موجودة",
+  "notFound.body": "هذه الصفحة غير موجودة أو تم نقلها.",
+  "notFound.back": "العودة إلى العرض التجريبي",
+};
@@ -0,0 +1,188 @@
+/**
+ * Source catalog: every key the UI uses, in English. The other catalogs are
+ * checked against these keys, so a missing translation fails the type check.
+ * `{name}` marks a value filled in at render time; a key with `_one`, `_two`,
+ * `_few`... variants is picked by count, falling back to the bare key.
+ */
+export const en = {
+  "header.systemReady": "System Ready",
+  "header.staff": "Staff",
+  "header.language": "Site language",
+
+  "theme.label": "Color theme",
+  "theme.light": "Light",
+  "theme.dark": "Dark",
+  "theme.system": "System",
+
+  "banner.title": "Welcome to Vela AI",
+  "banner.subtitle": "Experience our multilingual AI voice technology in action",
+  "banner.cta": "Click \"Start Call\" below to begin your demo experience",
+
+  "network.title": "Connection unstable",
+  "network.interrupted": "Trying to reconnect; the call will end if the connection does not come back shortly.",
+  "network.degraded": "The assistant may sound choppy or miss what you say.",
+
+  "status.connected": "Call in Progress...",
+  "status.requestingMic": "Checking microphone...",
+  "status.connecting": "Connecting...",
+  "status.reconnecting": "Reconnecting (attempt {attempt})...",
+  "status.ending": "Ending call...",
+  "status.micUnavailable": "Microphone Unavailable",
+  "status.connectionError": "Connection Error",
+  "status.ended": "Call Ended",
+  "status.endedAfter": "Call Ended ({duration})",
+  "status.ready": "Ready to Connect",
+
+  "failure.notInitialized": "The voice agent is not ready yet. Reload the page and try again.",
+  "failure.offline": "You appear to be offline. Check your internet connection and try again.",
+  "failure.connectTimeout": "The call did not connect in time.",
+  "failure.networkLost": "The connection was lost and could not be recovered.",
+
+  "latency.summary": "Response time: median {median} · p95 {p95} ({turns})",
+  "latency.turns": "{count} turns",
+  "latency.turns_one": "{count} turn",
+
+  "call.assistant": "{language} assistant",
+  "call.duration": "Duration: {duration}",
+  "call.reconnecting": "(reconnecting...)",
+
+  "floor.assistant": "Assistant is speaking...",
+  "floor.user": "You are speaking",
+  "floor.holdSpace": "Your turn: hold Space to talk",
+  "floor.muted": "Your turn, but your microphone is muted",
+  "floor.listening": "Your turn: the assistant is listening",
+
+  "controls.start": "Start Call",
+  "controls.stop": "Stop Call",
+  "controls.connecting": "Connecting...",
+  "controls.ending": "Ending...",
+  "controls.mute": "Mute",
+  "controls.unmute": "Unmute",
+  "controls.pushToTalk": "Push-to-talk (hold Space)",
+
+  "typed.placeholder": "Type a message to the assistant...",
+  "typed.placeholderIdle": "Start a call to send typed messages",
+  "typed.label": "Message to send into the call",
+  "typed.send": "Send",
+
+  "callerForm.title": "Caller details",
+  "callerForm.prospectName": "Prospect name",
+  "callerForm.company": "Company",
+  "callerForm.useCase": "Use case",
+  "callerForm.useCasePlaceholder": "Inbound support for a telecom operator, mostly billing questions",
+  "callerForm.firstMessage": "First message",
+  "callerForm.firstMessageHint": "Leave empty to keep the assistant's own greeting. You can use {variables}.",
+  "callerForm.firstMessagePlaceholder": "Hi {{prospectName}}, thanks for trying Vela. How can I help {{company}} today?",
+  "callerForm.error.prospectNameTooLong": "Keep the name under 80 characters",
+  "callerForm.error.companyTooLong": "Keep the company under 120 characters",
+  "callerForm.error.useCaseTooLong": "Keep the use case under 500 characters",
+  "callerForm.error.firstMessageTooLong": "Keep the first message under 500 characters",
+  "callerForm.error.placeholderUnknown": "Unknown placeholder {placeholder}",
+  "callerForm.error.placeholderBlank": "Fill in {field} or remove {placeholder} from the first message",
+
+  "lead.title": "Want to hear more?",
+  "lead.description": "Leave your details and our team will follow up about your use case.",
+  "lead.name": "Name",
+  "lead.email": "Email",
+  "lead.company": "Company",
+  "lead.phone": "Phone",
+  "lead.interest": "What are you interested in?",
+  "lead.interestPlaceholder": "Outbound reminders in Arabic and French, around 2,000 calls a month",
+  "lead.skip": "No thanks",
+  "lead.submit": "Send my details",
+  "lead.saved": "Thanks, we'll be in touch",
+  "lead.savedBody": "Your details reached our team.",
+  "lead.failed": "Your details could not be sent. Please try again.",
+  "lead.reopen": "Leave your details",
+  "lead.error.nameRequired": "Name is required",
+  "lead.error.nameTooLong": "Keep the name under 80 characters",
+  "lead.error.emailInvalid": "Enter a valid email address",
+  "lead.error.companyTooLong": "Keep the company under 120 characters",
+  "lead.error.phoneTooLong": "Keep the phone number under 40 characters",
+  "lead.error.phoneInvalid": "Enter a valid phone number",
+  "lead.error.interestTooLong": "Keep the interest under 500 characters",
+
+  "audioCheck.title": "Audio check",
+  "audioCheck.microphone": "Microphone",
+  "audioCheck.speaker": "Speaker",
+  "audioCheck.systemDefault": "System default",
+  "audioCheck.speakNow": "Speak now: the bar should move",
+  "audioCheck.inputLevel": "Input level",
+  "audioCheck.levelLabel": "Microphone input level",
+  "audioCheck.testMic": "Test microphone",
+  "audioCheck.stopTest": "Stop mic test",
+  "audioCheck.playTone": "Play test tone",
+
+  "micProblem.insecure.message": "Microphone access requires a secure (https) page.",
+  "micProblem.insecure.fix": "Open the demo over https or from localhost.",
+  "micProblem.unsupported.message": "This browser does not support microphone capture.",
+  "micProblem.unsupported.fix": "Use a recent version of Chrome, Edge, Firefox or Safari.",
+  "micProblem.denied.message": "Microphone permission was denied.",
+  "micProblem.denied.fix": "Click the camera/microphone icon in the address bar, allow the microphone for this site, then reload the page. On macOS also check System Settings → Privacy & Security → Microphone.",
+  "micProblem.not-found.message": "No usable microphone was found.",
+  "micProblem.not-found.fix": "Plug in a microphone or headset, or pick another input device.",
+  "micProblem.in-use.message": "The microphone could not be started.",
+  "micProblem.in-use.fix": "Close other apps or tabs that may be using it (video calls, recorders), then try again.",
+  "micProblem.unknown.message": "The microphone could not be opened.",
+  "micProblem.unknown.fix": "Check your microphone connection and browser permissions, then try again.",
+
+  "visualizer.label": "Live audio levels for the assistant and you",
+  "visualizer.assistant": "Assistant",
+  "visualizer.you": "You",
+
+  "transcript.title": "Live Transcript",
+  "transcript.empty": "The conversation will appear here once the call starts...",
+  "transcript.you": "You",
+  "transcript.assistant": "Assistant",
+  "transcript.typed": "typed",
+  "transcript.typedTitle": "Typed message",
+  "transcript.latest": "Latest",
+
+  "log.title": "Call Logs",
+  "log.clear": "Clear",
+  "log.search": "Search logs...",
+  "log.empty": "Call logs will appear here...",
+  "log.noMatch": "No logs match the current filters.",
+  "log.level.debug": "Debug",
+  "log.level.info": "Info",
+  "log.level.success": "Success",
+  "log.level.warn": "Warn",
+  "log.level.error": "Error",
+
+  "languages.title": "Multilingual Support",
+  "languages.subtitle": "Our AI agent communicates fluently in multiple languages. Pick a flag to choose who answers your call.",
+  "languages.tunisianTitle": "Specialized in Tunisian Dialect",
+  "languages.tunisianBody": "Complete support for all Arabic dialects and regional variations",
+  "languages.comingSoon": "{language} (coming soon)",
+  "languages.assistant": "Assistant",
+
+  "language.EN": "English",
+  "language.ES": "Spanish",
+  "language.FR": "French",
+  "language.DE": "German",
+  "language.CN": "Chinese",
+  "language.AR": "Arabic",
+  "language.IT": "Italian",
+  "language.JP": "Japanese",
+  "language.TN": "Tunisian",
+
+  "hero.titleStart": "Experience the Future of",
+  "hero.titleHighlight": "AI Voice Agents",
+  "hero.body": "Discover our cutting-edge multilingual AI voice agent. Engage in natural conversations across multiple languages with advanced understanding and human-like responses.",
+
+  "capability.inbound.title": "Inbound Calls",
+  "capability.inbound.desc": "Handle incoming customer inquiries",
+  "capability.outbound.title": "Outbound Calls",
+  "capability.outbound.desc": "Proactive customer outreach",
+  "capability.service.title": "Customer Service",
+  "capability.service.desc": "24/7 support and assistance",
+  "capability.leads.title": "Lead Qualification",
+  "capability.leads.desc": "Intelligent lead scoring and routing",
+
+  "footer.contact": "Contact Vela AI",
+  "footer.copyright": "© 2025 Vela AI. Powered by advanced voice intelligence technology.",
+
+  "notFound.title": "404 Page Not Found",
+  "notFound.body": "This page does not exist or has moved.",
+  "notFound.back": "Back to the demo",
+};
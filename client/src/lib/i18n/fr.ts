@@ -0,0 +1,184 @@
+import type { Catalog } from "./types";
+
+export const fr: Catalog = {
+  "header.systemReady": "Système prêt",
+  "header.staff": "Équipe",
+  "header.language": "Langue du site",
+
+  "theme.label": "Thème de couleurs",
+  "theme.light": "Clair",
+  "theme.dark": "Sombre",
+  "theme.system": "Système",
+
+  "banner.title": "Bienvenue sur Vela AI",
+  "banner.subtitle": "Découvrez notre technologie vocale IA multilingue en action",
+  "banner.cta": "Cliquez sur « Démarrer l'appel » ci-dessous pour commencer la démo",
+
+  "network.title": "Connexion instable",
+  "network.interrupted": "Reconnexion en cours ; l'appel prendra fin si la connexion ne revient pas rapidement.",
+  "network.degraded": "L'assistant peut sembler haché ou ne pas comprendre ce que vous dites.",
+
+  "status.connected": "Appel en cours...",
+  "status.requestingMic": "Vérification du micro...",
+  "status.connecting": "Connexion...",
+  "status.reconnecting": "Reconnexion (tentative {attempt})...",
+  "status.ending": "Fin de l'appel...",
+  "status.micUnavailable": "Micro indisponible",
+  "status.connectionError": "Erreur de connexion",
+  "status.ended": "Appel terminé",
+  "status.endedAfter": "Appel terminé ({duration})",
+  "status.ready": "Prêt à appeler",
+
+  "failure.notInitialized": "L'agent vocal n'est pas encore prêt. Rechargez la page et réessayez.",
+  "failure.offline": "Vous semblez hors ligne. Vérifiez votre connexion Internet et réessayez.",
+  "failure.connectTimeout": "L'appel ne s'est pas connecté à temps.",
+  "failure.networkLost": "La connexion a été perdue et n'a pas pu être rétablie.",
+
+  "latency.summary": "Temps de réponse : médiane {median} · p95 {p95} ({turns})",
+  "latency.turns": "{count} tours",
+  "latency.turns_one": "{count} tour",
+
+  "call.assistant": "Assistant {language}",
+  "call.duration": "Durée : {duration}",
+  "call.reconnecting": "(reconnexion...)",
+
+  "floor.assistant": "L'assistant parle...",
+  "floor.user": "Vous parlez",
+  "floor.holdSpace": "À vous : maintenez Espace pour parler",
+  "floor.muted": "À vous, mais votre micro est coupé",
+  "floor.listening": "À vous : l'assistant écoute",
+
+  "controls.start": "Démarrer l'appel",
+  "controls.stop": "Raccrocher",
+  "controls.connecting": "Connexion...",
+  "controls.ending": "Fin de l'appel...",
+  "controls.mute": "Couper le micro",
+  "controls.unmute": "Réactiver le micro",
+  "controls.pushToTalk": "Appuyer pour parler (maintenir Espace)",
+
+  "typed.placeholder": "Écrivez un message à l'assistant...",
+  "typed.placeholderIdle": "Démarrez un appel pour envoyer des messages écrits",
+  "typed.label": "Message à envoyer pendant l'appel",
+  "typed.send": "Envoyer",
+
+  "callerForm.title": "Informations sur l'appelant",
+  "callerForm.prospectName": "Nom du prospect",
+  "callerForm.company": "Entreprise",
+  "callerForm.useCase": "Cas d'usage",
+  "callerForm.useCasePlaceholder": "Support entrant pour un opérateur télécom, surtout des questions de facturation",
+  "callerForm.firstMessage": "Premier message",
+  "callerForm.firstMessageHint": "Laissez vide pour garder l'accueil de l'assistant. Vous pouvez utiliser {variables}.",
+  "callerForm.firstMessagePlaceholder": "Bonjour {{prospectName}}, merci d'essayer Vela. Comment puis-je aider {{company}} aujourd'hui ?",
+  "callerForm.error.prospectNameTooLong": "Le nom doit faire moins de 80 caractères",
+  "callerForm.error.companyTooLong": "L'entreprise doit faire moins de 120 caractères",
+  "callerForm.error.useCaseTooLong": "Le cas d'usage doit faire moins de 500 caractères",
+  "callerForm.error.firstMessageTooLong": "Le premier message doit faire moins de 500 caractères",
+  "callerForm.error.placeholderUnknown": "Variable inconnue : {placeholder}",
+  "callerForm.error.placeholderBlank": "Renseignez {field} ou retirez {placeholder} du premier message",
+
+  "lead.title": "Envie d'en savoir plus ?",
+  "lead.description": "Laissez vos coordonnées et notre équipe reviendra vers vous au sujet de votre cas d'usage.",
+  "lead.name": "Nom",
+  "lead.email": "E-mail",
+  "lead.company": "Entreprise",
+  "lead.phone": "Téléphone",
+  "lead.interest": "Qu'est-ce qui vous intéresse ?",
+  "lead.interestPlaceholder": "Rappels sortants en arabe et en français, environ 2 000 appels par mois",
+  "lead.skip": "Non merci",
+  "lead.submit": "Envoyer mes coordonnées",
+  "lead.saved": "Merci, nous revenons vers vous",
+  "lead.savedBody": "Vos coordonnées ont bien été transmises à notre équipe.",
+  "lead.failed": "Vos coordonnées n'ont pas pu être envoyées. Veuillez réessayer.",
+  "lead.reopen": "Laisser mes coordonnées",
+  "lead.error.nameRequired": "Le nom est obligatoire",
+  "lead.error.nameTooLong": "Le nom doit faire moins de 80 caractères",
+  "lead.error.emailInvalid": "Saisissez une adresse e-mail valide",
+  "lead.error.companyTooLong": "L'entreprise doit faire moins de 120 caractères",
+  "lead.error.phoneTooLong": "Le numéro doit faire moins de 40 caractères",
+  "lead.error.phoneInvalid": "Saisissez un numéro de téléphone valide",
+  "lead.error.interestTooLong": "Ce champ doit faire moins de 500 caractères",
+
+  "audioCheck.title": "Test audio",
+  "audioCheck.microphone": "Micro",
+  "audioCheck.speaker": "Haut-parleur",
+  "audioCheck.systemDefault": "Par défaut du système",
+  "audioCheck.speakNow": "Parlez maintenant : la barre doit bouger",
+  "audioCheck.inputLevel": "Niveau d'entrée",
+  "audioCheck.levelLabel": "Niveau d'entrée du micro",
+  "audioCheck.testMic": "Tester le micro",
+  "audioCheck.stopTest": "Arrêter le test",
+  "audioCheck.playTone": "Jouer un son de test",
+
+  "micProblem.insecure.message": "L'accès au micro nécessite une page sécurisée (https).",
+  "micProblem.insecure.fix": "Ouvrez la démo en https ou depuis localhost.",
+  "micProblem.unsupported.message": "Ce navigateur ne permet pas la capture du micro.",
+  "micProblem.unsupported.fix": "Utilisez une version récente de Chrome, Edge, Firefox ou Safari.",
+  "micProblem.denied.message": "L'autorisation du micro a été refusée.",
+  "micProblem.denied.fix": "Cliquez sur l'icône caméra/micro dans la barre d'adresse, autorisez le micro pour ce site, puis rechargez la page. Sur macOS, vérifiez aussi Réglages Système → Confidentialité et sécurité → Micro.",
+  "micProblem.not-found.message": "Aucun micro utilisable n'a été trouvé.",
+  "micProblem.not-found.fix": "Branchez un micro ou un casque, ou choisissez un autre périphérique d'entrée.",
+  "micProblem.in-use.message": "Le micro n'a pas pu être démarré.",
+  "micProblem.in-use.fix": "Fermez les applications ou onglets qui l'utilisent peut-être (visioconférences, enregistreurs), puis réessayez.",
+  "micProblem.unknown.message": "Le micro n'a pas pu être ouvert.",
+  "micProblem.unknown.fix": "Vérifiez le branchement du micro et les autorisations du navigateur, puis réessayez.",
+
+  "visualizer.label": "Niveaux audio en direct de l'assistant et de vous",
+  "visualizer.assistant": "Assistant",
+  "visualizer.you": "Vous",
+
+  "transcript.title": "Transcription en direct",
+  "transcript.empty": "La conversation s'affichera ici dès le début de l'appel...",
+  "transcript.you": "Vous",
+  "transcript.assistant": "Assistant",
+  "transcript.typed": "écrit",
+  "transcript.typedTitle": "Message écrit",
+  "transcript.latest": "Derniers messages",
+
+  "log.title": "Journal d'appel",
+  "log.clear": "Effacer",
+  "log.search": "Rechercher dans le journal...",
+  "log.empty": "Le journal d'appel s'affichera ici...",
+  "log.noMatch": "Aucune entrée ne correspond aux filtres.",
+  "log.level.debug": "Débogage",
+  "log.level.info": "Info",
+  "log.level.success": "Succès",
+  "log.level.warn": "Alerte",
+  "log.level.error": "Erreur",
+
+  "languages.title": "Support multilingue",
+  "languages.subtitle": "Notre agent IA s'exprime couramment dans plusieurs langues. Choisissez un drapeau pour décider qui répond à votre appel.",
+  "languages.tunisianTitle": "Spécialiste du dialecte tunisien",
+  "languages.tunisianBody": "Prise en charge complète des dialectes arabes et de leurs variantes régionales",
+  "languages.comingSoon": "{language} (bientôt disponible)",
+  "languages.assistant": "Assistant",
+
+  "language.EN": "anglais",
+  "language.ES": "espagnol",
+  "language.FR": "français",
+  "language.DE": "allemand",
+  "language.CN": "chinois",
+  "language.AR": "arabe",
+  "language.IT": "italien",
+  "language.JP": "japonais",
+  "language.TN": "tunisien",
+
+  "hero.titleStart": "Découvrez l'avenir des",
+  "hero.titleHighlight": "agents vocaux IA",
+  "hero.body": "Découvrez notre agent vocal IA multilingue de pointe. Engagez des conversations naturelles dans plusieurs langues, avec une compréhension avancée et des réponses proches de l'humain.",
+
+  "capability.inbound.title": "Appels entrants",
+  "capability.inbound.desc": "Traitement des demandes des clients",
+  "capability.outbound.title": "Appels sortants",
+  "capability.outbound.desc": "Prospection proactive des clients",
+  "capability.service.title": "Service client",
+  "capability.service.desc": "Assistance 24 h/24, 7 j/7",
+  "capability.leads.title": "Qualification de leads",
+  "capability.leads.desc": "Scoring et routage intelligents des leads",
+
+  "footer.contact": "Contacter Vela AI",
+  "footer.copyright": "© 2025 Vela AI. Propulsé par une technologie avancée d'intelligence vocale.",
+
+  "notFound.title": "404 Page introuvable",
+  "notFound.body": "Cette page n'existe pas ou a été déplacée.",
+  "notFound.back": "Retour à la démo",
+};
@@ -0,0 +1,55 @@
+import { ar } from "./ar";
+import { en } from "./en";
+import { fr } from "./fr";
+import type { Catalog, MessageKey } from "./types";
+
+export type { Catalog, MessageKey } from "./types";
+
+export const locales = ["en", "fr", "ar"] as const;
+export type Locale = (typeof locales)[number];
+
+export type TextDirection = "ltr" | "rtl";
+
+export const localeInfo: Record<Locale, { label: string; dir: TextDirection; intl: string }> = {
+  en: { label: "English", dir: "ltr", intl: "en" },
+  fr: { label: "Français", dir: "ltr", intl: "fr" },
+  // Tunisian Arabic writes Western digits, as our partners there expect
+  ar: { label: "العربية", dir: "rtl", intl: "ar-TN" },
+};
+
+const catalogs: Record<Locale, Catalog> = { en, fr, ar };
+
+export type MessageParams = Record<string, string | number>;
+
+export function isLocale(value: unknown): value is Locale {
+  return (locales as readonly unknown[]).includes(value);
+}
+
+/** First supported language in the browser's preference list, by primary subtag. */
+export function detectLocale(languages: readonly string[]): Locale {
+  for (const language of languages) {
+    const primary = language.toLowerCase().split("-")[0];
+    if (isLocale(primary)) return primary;
+  }
+  return "en";
+}
+
+/**
+ * Looks up `key` and fills in `{name}` placeholders. A numeric `count` picks
+ * the plural variant the language's rules call for; numbers are written the
+ * locale's way.
+ */
+export function translate(locale: Locale, key: MessageKey, params: MessageParams = {}) {
+  const catalog = catalogs[locale];
+  const { intl } = localeInfo[locale];
+  let message = catalog[key];
+  if (typeof params.count === "number") {
+    message = catalog[`${key}_${new Intl.PluralRules(intl).select(params.count)}`] ?? message;
+  }
+  const numbers = new Intl.NumberFormat(intl);
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = params[name];
+    if (value === undefined) return placeholder;
+    return typeof value === "number" ? numbers.format(value) : value;
+  });
+}
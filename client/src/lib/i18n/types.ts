@@ -0,0 +1,6 @@
+import type { en } from "./en";
+
+export type MessageKey = keyof typeof en;
+
+/** Every source key, plus whichever plural variants the language needs. */
+export type Catalog = Record<MessageKey, string> & Partial<Record<string, string>>;
@@ -0,0 +1,23 @@
+/** Languages shown in the demo's language grid, in display order. */
+export const demoLanguages = [
+  { code: "EN", title: "English" },
+  { code: "ES", title: "Spanish" },
+  { code: "FR", title: "French" },
+  { code: "DE", title: "German" },
+  { code: "CN", title: "Chinese" },
+  { code: "AR", title: "Arabic" },
+  { code: "IT", title: "Italian" },
+  { code: "JP", title: "Japanese" },
+  { code: "TN", title: "Tunisian" },
+] as const;
+
+export type LanguageCode = (typeof demoLanguages)[number]["code"];
+
+export const languageCodes = demoLanguages.map((language) => language.code) as [
+  LanguageCode,
+  ...LanguageCode[],
+];
+
+export function languageTitle(code: LanguageCode) {
+  return demoLanguages.find((language) => language.code === code)?.title ?? code;
+}
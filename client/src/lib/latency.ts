@@ -0,0 +1,43 @@
+export interface TurnTiming {
+  turnIndex: number;
+  /** ISO timestamps, as posted to the API. */
+  userEndedAt: string;
+  assistantStartedAt: string;
+  latencyMs: number;
+}
+
+/**
+ * Pairs "caller stopped talking" with the next "assistant started talking".
+ * Several signals can mark the end of a user turn (a speech update, a final
+ * transcript); the earliest one wins, and the caller resuming cancels it.
+ */
+export class TurnLatencyTracker {
+  private userEndedAt: number | null = null;
+  private count = 0;
+
+  userStarted() {
+    this.userEndedAt = null;
+  }
+
+  userStopped(at = Date.now()) {
+    this.userEndedAt ??= at;
+  }
+
+  /** Returns the completed turn, or null when the assistant spoke unprompted. */
+  assistantStarted(at = Date.now()): TurnTiming | null {
+    if (this.userEndedAt === null) return null;
+    const turn: TurnTiming = {
+      turnIndex: this.count++,
+      userEndedAt: new Date(this.userEndedAt).toISOString(),
+      assistantStartedAt: new Date(at).toISOString(),
+      latencyMs: Math.max(0, at - this.userEndedAt),
+    };
+    this.userEndedAt = null;
+    return turn;
+  }
+
+  reset() {
+    this.userEndedAt = null;
+    this.count = 0;
+  }
+}
@@ -0,0 +1,94 @@
+export const logLevels = ["debug", "info", "success", "warn", "error"] as const;
+export type LogLevel = (typeof logLevels)[number];
+
+export const logSources = ["engine", "ui", "network"] as const;
+export type LogSource = (typeof logSources)[number];
+
+export interface LogEntry {
+  id: string;
+  /** ISO 8601, so exported traces sort and compare across time zones. */
+  timestamp: string;
+  level: LogLevel;
+  source: LogSource;
+  message: string;
+  payload?: Record<string, unknown>;
+}
+
+export type NewLogEntry = Omit<LogEntry, "id" | "timestamp">;
+
+const MAX_ENTRIES = 1000;
+
+/**
+ * Append-only log kept outside React, so entries survive remounts of the
+ * page. Compatible with `useSyncExternalStore`.
+ */
+export class LogStore {
+  private entries: LogEntry[] = [];
+  private listeners = new Set<() => void>();
+  private sequence = 0;
+
+  subscribe = (listener: () => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  getSnapshot = () => this.entries;
+
+  add(entry: NewLogEntry) {
+    const next: LogEntry = {
+      ...entry,
+      id: `${Date.now()}-${++this.sequence}`,
+      timestamp: new Date().toISOString(),
+    };
+    this.entries = [...this.entries, next].slice(-MAX_ENTRIES);
+    this.notify();
+    return next;
+  }
+
+  clear() {
+    this.entries = [];
+    this.notify();
+  }
+
+  private notify() {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+export const callLog = new LogStore();
+
+export function logsToJson(entries: LogEntry[]) {
+  return JSON.stringify(entries, null, 2);
+}
+
+function csvCell(value: string) {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function logsToCsv(entries: LogEntry[]) {
+  const header = ["timestamp", "level", "source", "message", "payload"];
+  const rows = entries.map((entry) =>
+    [
+      entry.timestamp,
+      entry.level,
+      entry.source,
+      entry.message,
+      entry.payload ? JSON.stringify(entry.payload) : "",
+    ]
+      .map(csvCell)
+      .join(","),
+  );
+  return [header.join(","), ...rows].join("\r\n");
+}
+
+export function matchesLogQuery(entry: LogEntry, query: string) {
+  if (!query) return true;
+  const needle = query.toLowerCase();
+  return (
+    entry.message.toLowerCase().includes(needle) ||
+    entry.source.includes(needle) ||
+    (entry.payload !== undefined && JSON.stringify(entry.payload).toLowerCase().includes(needle))
+  );
+}
@@ -3,7 +3,17 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    throw new Error(`${res.status}: ${extractMessage(text)}`);
+  }
+}
+
+// The API answers errors with `{ message }`; show that rather than raw JSON
+function extractMessage(text: string) {
+  try {
+    const body = JSON.parse(text);
+    return typeof body?.message === "string" ? body.message : text;
+  } catch {
+    return text;
   }
 }
 
@@ -11,10 +21,11 @@ export async function apiRequest(
   method: string,
   url: string,
   data?: unknown | undefined,
+  headers: Record<string, string> = {},
 ): Promise<Response> {
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers: data ? { ...headers, "Content-Type": "application/json" } : headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
@@ -0,0 +1,83 @@
+import { z } from "zod";
+
+/** Shades of the brand scale, as in Tailwind's `brand-600`. */
+export const brandShades = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+/**
+ * CSS variables in `index.css` a palette may override, without the `--`.
+ * `brand-*` shades are bare HSL channels ("221 83% 53%") so Tailwind opacity
+ * modifiers such as `bg-brand-900/20` keep working; every other token is a
+ * complete CSS color. `primary` and `vela-blue` follow `brand-600` unless set.
+ */
+export const themeTokenNames = [
+  "background",
+  "foreground",
+  "muted",
+  "muted-foreground",
+  "popover",
+  "popover-foreground",
+  "card",
+  "card-foreground",
+  "border",
+  "input",
+  "primary",
+  "primary-foreground",
+  "secondary",
+  "secondary-foreground",
+  "accent",
+  "accent-foreground",
+  "destructive",
+  "destructive-foreground",
+  "ring",
+  "radius",
+  "vela-blue",
+  "vela-dark",
+  "vela-success",
+  "vela-error",
+  "vela-gradient-from",
+  "vela-gradient-to",
+  ...brandShades.map((shade) => `brand-${shade}` as const),
+] as const;
+
+export type ThemeToken = (typeof themeTokenNames)[number];
+
+// Values end up inside a <style> element, so nothing may close the declaration
+const tokenValue = z
+  .string()
+  .trim()
+  .min(1, "Theme values cannot be empty")
+  .regex(/^[^;{}<>]+$/, "Theme values cannot contain ; { } < or >");
+
+export const themeTokensSchema = z.record(z.enum(themeTokenNames), tokenValue);
+
+export type ThemeTokens = z.infer<typeof themeTokensSchema>;
+
+/** A partner's brand: overrides for light mode and, separately, dark mode. */
+export const paletteSchema = z.object({
+  light: themeTokensSchema.default({}),
+  dark: themeTokensSchema.default({}),
+});
+
+export type Palette = z.infer<typeof paletteSchema>;
+
+function declarations(tokens: ThemeTokens) {
+  return Object.entries(tokens)
+    .map(([name, value]) => `  --${name}: ${value};`)
+    .join("\n");
+}
+
+/**
+ * Stylesheet applying a palette over the defaults in `index.css`. It is not
+ * in a cascade layer, so it wins over the layered defaults for the same
+ * selectors.
+ */
+export function paletteCss(palette: Palette) {
+  const rules: string[] = [];
+  if (Object.keys(palette.light).length > 0) {
+    rules.push(`:root {\n${declarations(palette.light)}\n}`);
+  }
+  if (Object.keys(palette.dark).length > 0) {
+    rules.push(`.dark {\n${declarations(palette.dark)}\n}`);
+  }
+  return rules.join("\n");
+}
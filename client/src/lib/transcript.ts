@@ -0,0 +1,62 @@
+import type { Speaker, TranscriptEvent } from "@/lib/voice";
+
+export interface TranscriptEntry {
+  id: string;
+  role: Speaker;
+  text: string;
+  /** False while the provider is still streaming partial text. */
+  isFinal: boolean;
+  /** ISO timestamp of the first partial for this utterance. */
+  startedAt: string;
+  /** Entered through the keyboard rather than spoken. */
+  typed?: boolean;
+}
+
+let sequence = 0;
+
+/**
+ * Folds one transcript event into the list. Partials update the speaker's
+ * open utterance in place; a final closes it, so the next partial starts a
+ * new entry.
+ */
+export function applyTranscriptEvent(
+  entries: TranscriptEntry[],
+  event: TranscriptEvent,
+): TranscriptEntry[] {
+  const openIndex = entries.findLastIndex(
+    (entry) => entry.role === event.role && !entry.isFinal,
+  );
+  const isFinal = event.transcriptType === "final";
+
+  if (openIndex === -1) {
+    return [
+      ...entries,
+      {
+        id: `transcript-${++sequence}`,
+        role: event.role,
+        text: event.text,
+        isFinal,
+        startedAt: new Date().toISOString(),
+      },
+    ];
+  }
+
+  const next = entries.slice();
+  next[openIndex] = { ...next[openIndex], text: event.text, isFinal };
+  return next;
+}
+
+/** Appends a message the user typed into the call; it is final from the start. */
+export function appendTypedMessage(entries: TranscriptEntry[], text: string): TranscriptEntry[] {
+  return [
+    ...entries,
+    {
+      id: `transcript-${++sequence}`,
+      role: "user",
+      text,
+      isFinal: true,
+      startedAt: new Date().toISOString(),
+      typed: true,
+    },
+  ];
+}
@@ -0,0 +1,32 @@
+import type { VoiceEngineEvents } from "./types";
+
+/** Event name to listener signature; an interface of methods fits. */
+type EventMap<Events> = { [E in keyof Events]: (...args: never[]) => void };
+
+export class TypedEventEmitter<Events extends EventMap<Events>> {
+  private listeners: { [E in keyof Events]?: Set<Events[E]> } = {};
+
+  on<E extends keyof Events>(event: E, listener: Events[E]) {
+    const set = (this.listeners[event] ??= new Set<Events[E]>());
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  }
+
+  protected emit<E extends keyof Events>(event: E, ...args: Parameters<Events[E]>) {
+    this.listeners[event]?.forEach((listener) => {
+      try {
+        (listener as (...args: Parameters<Events[E]>) => void)(...args);
+      } catch (error) {
+        console.error(`Voice engine "${String(event)}" listener failed:`, error);
+      }
+    });
+  }
+
+  protected removeAllListeners() {
+    this.listeners = {};
+  }
+}
+
+export class VoiceEventEmitter extends TypedEventEmitter<VoiceEngineEvents> {}
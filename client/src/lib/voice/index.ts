@@ -0,0 +1,16 @@
+import type { AppConfig } from "@/lib/config";
+import { MockVoiceEngine } from "./mock-engine";
+import type { VoiceEngine } from "./types";
+
+export * from "./types";
+export { MockVoiceEngine, defaultMockScript } from "./mock-engine";
+export type { MockScript, MockScriptStep } from "./mock-engine";
+
+export async function createVoiceEngine(config: AppConfig): Promise<VoiceEngine> {
+  if (config.voiceEngine === "mock") {
+    return new MockVoiceEngine();
+  }
+  // Keep the provider SDK in its own chunk
+  const { VapiEngine } = await import("./vapi-engine");
+  return new VapiEngine(config.vapiPublicKey);
+}
@@ -0,0 +1,188 @@
+import { VoiceEventEmitter } from "./emitter";
+import type {
+  AudioDeviceSelection,
+  CallOverrides,
+  ConnectionUpdate,
+  Speaker,
+  SpeechUpdate,
+  VoiceEngine,
+} from "./types";
+
+/** One scripted event, `at` milliseconds after the call connects. */
+export type MockScriptStep =
+  | { at: number; type: "speech-start" | "speech-end" | "call-end" }
+  | { at: number; type: "volume-level"; volume: number }
+  | ({ at: number; type: "speech-update" } & SpeechUpdate)
+  | ({ at: number; type: "connection" } & ConnectionUpdate)
+  | { at: number; type: "transcript"; role: Speaker; transcriptType: "partial" | "final"; text: string }
+  | { at: number; type: "error"; message: string };
+
+export interface MockScript {
+  /** Delay between `start()` and `call-start`. */
+  connectDelay: number;
+  /** When set, `start()` rejects with this message instead of connecting. */
+  failToConnect?: string;
+  /** Spoken right after connecting, unless the call overrides it. */
+  firstMessage: string;
+  steps: MockScriptStep[];
+}
+
+const GREETING_AT = 500;
+
+// Mirrors the provider's `{{name}}` templating; unknown names become empty
+function fillTemplate(text: string, values: Record<string, string> = {}) {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => values[name] ?? "");
+}
+
+function assistantTurn(at: number, text: string): MockScriptStep[] {
+  const words = text.split(" ");
+  const half = words.slice(0, Math.ceil(words.length / 2)).join(" ");
+  // Loudness every 100 ms while speaking, so visualizers have something to show
+  const volumes: MockScriptStep[] = Array.from({ length: 11 }, (_, i) => ({
+    at: at + 100 * (i + 1),
+    type: "volume-level",
+    volume: 0.3 + 0.4 * Math.abs(Math.sin(i * 1.7)),
+  }));
+  return [
+    { at, type: "speech-start" },
+    { at, type: "speech-update", role: "assistant", status: "started" },
+    ...volumes,
+    { at: at + 400, type: "transcript", role: "assistant", transcriptType: "partial", text: half },
+    { at: at + 1200, type: "transcript", role: "assistant", transcriptType: "final", text },
+    { at: at + 1300, type: "volume-level", volume: 0 },
+    { at: at + 1300, type: "speech-end" },
+    { at: at + 1300, type: "speech-update", role: "assistant", status: "stopped" },
+  ];
+}
+
+function userTurn(at: number, text: string): MockScriptStep[] {
+  const words = text.split(" ");
+  return [
+    { at, type: "speech-update", role: "user", status: "started" },
+    { at, type: "transcript", role: "user", transcriptType: "partial", text: words.slice(0, 2).join(" ") },
+    { at: at + 900, type: "transcript", role: "user", transcriptType: "final", text },
+    { at: at + 900, type: "speech-update", role: "user", status: "stopped" },
+  ];
+}
+
+export const defaultMockScript: MockScript = {
+  connectDelay: 800,
+  firstMessage: "Hello, this is Vela. How can I help you today?",
+  steps: [
+    ...userTurn(3000, "Hi, I would like to know which languages you support."),
+    ...assistantTurn(4800, "I speak English, French, Arabic and the Tunisian dialect, among others."),
+    ...userTurn(8000, "Great, thank you. Goodbye."),
+    ...assistantTurn(9600, "Thank you for calling. Goodbye!"),
+    { at: 11500, type: "call-end" },
+  ],
+};
+
+/**
+ * Offline stand-in for the provider. Replays a scripted conversation on
+ * timers, so the UI can be exercised without network access or credentials.
+ */
+export class MockVoiceEngine extends VoiceEventEmitter implements VoiceEngine {
+  readonly kind = "mock" as const;
+  private timers: ReturnType<typeof setTimeout>[] = [];
+  private active = false;
+  private muted = false;
+
+  constructor(private script: MockScript = defaultMockScript) {
+    super();
+  }
+
+  async start(_assistantId: string, overrides: CallOverrides = {}) {
+    if (this.active) {
+      throw new Error("A mock call is already in progress");
+    }
+    if (this.script.failToConnect) {
+      await new Promise((resolve) => setTimeout(resolve, this.script.connectDelay));
+      throw new Error(this.script.failToConnect);
+    }
+
+    this.active = true;
+    const greeting = fillTemplate(overrides.firstMessage ?? this.script.firstMessage, overrides.variableValues);
+    this.schedule(this.script.connectDelay, () => {
+      this.emit("call-start");
+      for (const step of [...assistantTurn(GREETING_AT, greeting), ...this.script.steps]) {
+        this.schedule(step.at, () => this.runStep(step));
+      }
+    });
+    // Nothing on the provider side to link the call to
+    return null;
+  }
+
+  private schedule(delay: number, fn: () => void) {
+    this.timers.push(setTimeout(fn, delay));
+  }
+
+  private runStep(step: MockScriptStep) {
+    // A muted caller cannot be heard, so their scripted lines are dropped
+    if (this.muted && (step.type === "transcript" || step.type === "speech-update") && step.role === "user") {
+      return;
+    }
+    switch (step.type) {
+      case "call-end":
+        this.endCall();
+        break;
+      case "volume-level":
+        this.emit("volume-level", step.volume);
+        break;
+      case "transcript":
+        this.emit("transcript", {
+          role: step.role,
+          transcriptType: step.transcriptType,
+          text: step.text,
+        });
+        break;
+      case "speech-update":
+        this.emit("speech-update", { role: step.role, status: step.status });
+        break;
+      case "connection":
+        this.emit("connection", { state: step.state, detail: step.detail });
+        break;
+      case "error":
+        this.emit("error", { message: step.message });
+        break;
+      default:
+        this.emit(step.type);
+    }
+  }
+
+  private endCall() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+    if (this.active) {
+      this.active = false;
+      this.emit("call-end");
+    }
+  }
+
+  stop() {
+    this.endCall();
+  }
+
+  // The mock produces no audio, so there is nothing to route
+  setAudioDevices(_devices: AudioDeviceSelection) {}
+
+  // Answers typed messages with a canned acknowledgement
+  sendMessage(text: string) {
+    if (!this.active) return;
+    for (const step of assistantTurn(600, `You wrote: "${text}". Let me help you with that.`)) {
+      this.schedule(step.at, () => this.runStep(step));
+    }
+  }
+
+  setMuted(muted: boolean) {
+    this.muted = muted;
+  }
+
+  isMuted() {
+    return this.muted;
+  }
+
+  destroy() {
+    this.endCall();
+    this.removeAllListeners();
+  }
+}
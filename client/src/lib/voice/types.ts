@@ -0,0 +1,77 @@
+export type Speaker = "user" | "assistant";
+
+export interface TranscriptEvent {
+  role: Speaker;
+  /** Partial transcripts are superseded by the next partial or final one. */
+  transcriptType: "partial" | "final";
+  text: string;
+}
+
+export interface SpeechUpdate {
+  role: Speaker;
+  status: "started" | "stopped";
+}
+
+export interface ConnectionUpdate {
+  /** "degraded" means still connected but with poor media quality. */
+  state: "stable" | "degraded" | "interrupted";
+  detail: string;
+}
+
+export interface VoiceEngineError {
+  message: string;
+  cause?: unknown;
+}
+
+/**
+ * Events every engine emits. `speech-start` / `speech-end` describe the
+ * assistant's audio; user turns are only visible through transcripts.
+ */
+export interface VoiceEngineEvents {
+  "call-start": () => void;
+  "call-end": () => void;
+  "speech-start": () => void;
+  "speech-end": () => void;
+  "volume-level": (volume: number) => void;
+  /** Turn-taking hints for either speaker, when the provider reports them. */
+  "speech-update": (update: SpeechUpdate) => void;
+  /** Transport health during a call, for engines that can observe it. */
+  connection: (update: ConnectionUpdate) => void;
+  transcript: (event: TranscriptEvent) => void;
+  /** Raw provider message, for anything not covered by a typed event. */
+  message: (message: unknown) => void;
+  error: (error: VoiceEngineError) => void;
+}
+
+export type VoiceEngineEventName = keyof VoiceEngineEvents;
+
+/** Per-call settings layered over the assistant's saved configuration. */
+export interface CallOverrides {
+  /** Substituted into `{{name}}` placeholders in the assistant's prompts. */
+  variableValues?: Record<string, string>;
+  firstMessage?: string;
+}
+
+export interface AudioDeviceSelection {
+  /** Empty or undefined means the browser default. */
+  inputDeviceId?: string;
+  outputDeviceId?: string;
+}
+
+export interface VoiceEngine {
+  readonly kind: "vapi" | "mock";
+  /** Resolves with the provider's ID for the call, if it assigns one. */
+  start(assistantId: string, overrides?: CallOverrides): Promise<string | null>;
+  stop(): void;
+  /** Applies now if a call is live, otherwise when the next call starts. */
+  setAudioDevices(devices: AudioDeviceSelection): void;
+  /** Like `setAudioDevices`, a mute set before the call is applied on connect. */
+  setMuted(muted: boolean): void;
+  isMuted(): boolean;
+  /** Adds a typed user message to the live conversation; the assistant replies to it. */
+  sendMessage(text: string): void;
+  /** Subscribes to an event and returns the matching unsubscribe function. */
+  on<E extends VoiceEngineEventName>(event: E, listener: VoiceEngineEvents[E]): () => void;
+  /** Stops any call and drops every listener. */
+  destroy(): void;
+}
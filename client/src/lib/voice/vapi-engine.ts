@@ -0,0 +1,137 @@
+import Vapi from "@vapi-ai/web";
+import { VoiceEventEmitter } from "./emitter";
+import type { AudioDeviceSelection, CallOverrides, Speaker, VoiceEngine, VoiceEngineError } from "./types";
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null;
+}
+
+// Vapi reports errors in several shapes depending on where they originate
+// (Daily transport, REST start call, server message).
+function toEngineError(error: unknown): VoiceEngineError {
+  let message: unknown = typeof error === "string" ? error : undefined;
+  if (isRecord(error)) {
+    message = (isRecord(error.error) ? error.error.message : undefined) ?? error.errorMsg ?? error.message;
+  }
+  return { message: message == null ? "Unknown error occurred" : String(message), cause: error };
+}
+
+function toSpeaker(role: unknown): Speaker {
+  return role === "user" ? "user" : "assistant";
+}
+
+export class VapiEngine extends VoiceEventEmitter implements VoiceEngine {
+  readonly kind = "vapi" as const;
+  private client: Vapi;
+  private devices: AudioDeviceSelection = {};
+  private muted = false;
+  private inCall = false;
+
+  constructor(publicKey: string) {
+    super();
+    this.client = new Vapi(publicKey);
+
+    this.client.on("call-start", () => {
+      this.inCall = true;
+      this.applyDevices();
+      this.watchConnection();
+      this.client.setMuted(this.muted);
+      this.emit("call-start");
+    });
+    this.client.on("call-end", () => {
+      this.inCall = false;
+      this.emit("call-end");
+    });
+    this.client.on("speech-start", () => this.emit("speech-start"));
+    this.client.on("speech-end", () => this.emit("speech-end"));
+    this.client.on("volume-level", (volume) => this.emit("volume-level", volume));
+    this.client.on("error", (error) => this.emit("error", toEngineError(error)));
+    this.client.on("message", (message) => this.handleMessage(message));
+  }
+
+  // Client messages arrive untyped; only the fields read here are checked
+  private handleMessage(message: unknown) {
+    if (isRecord(message)) {
+      if (message.type === "transcript" && typeof message.transcript === "string") {
+        this.emit("transcript", {
+          role: toSpeaker(message.role),
+          transcriptType: message.transcriptType === "final" ? "final" : "partial",
+          text: message.transcript,
+        });
+      }
+      const status = message.status;
+      if (message.type === "speech-update" && (status === "started" || status === "stopped")) {
+        this.emit("speech-update", { role: toSpeaker(message.role), status });
+      }
+    }
+    this.emit("message", message);
+  }
+
+  // Vapi does not surface transport health, but its Daily call object does
+  private watchConnection() {
+    const call = this.client.getDailyCallObject();
+    if (!call) return;
+    call.on("network-connection", (event) => {
+      if (event?.event === "interrupted") {
+        this.emit("connection", { state: "interrupted", detail: `${event.type} connection interrupted` });
+      } else if (event?.event === "connected") {
+        this.emit("connection", { state: "stable", detail: `${event.type} connection restored` });
+      }
+    });
+    call.on("network-quality-change", (event) => {
+      if (!event) return;
+      this.emit("connection", {
+        state: event.threshold === "very-low" ? "degraded" : "stable",
+        detail: `Network quality ${event.threshold}`,
+      });
+    });
+  }
+
+  private applyDevices() {
+    const { inputDeviceId, outputDeviceId } = this.devices;
+    if (inputDeviceId) {
+      this.client.setInputDevicesAsync({ audioDeviceId: inputDeviceId });
+    }
+    if (outputDeviceId) {
+      this.client.setOutputDeviceAsync({ outputDeviceId });
+    }
+  }
+
+  setAudioDevices(devices: AudioDeviceSelection) {
+    this.devices = devices;
+    if (this.inCall) {
+      this.applyDevices();
+    }
+  }
+
+  // Vapi throws when muting outside a call, so the flag is kept here too
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    if (this.inCall) {
+      this.client.setMuted(muted);
+    }
+  }
+
+  isMuted() {
+    return this.muted;
+  }
+
+  sendMessage(text: string) {
+    this.client.send({ type: "add-message", message: { role: "user", content: text } });
+  }
+
+  async start(assistantId: string, overrides?: CallOverrides) {
+    const call = await this.client.start(assistantId, overrides);
+    return call?.id ?? null;
+  }
+
+  stop() {
+    this.client.stop();
+  }
+
+  destroy() {
+    this.client.stop();
+    this.client.removeAllListeners();
+    this.removeAllListeners();
+  }
+}
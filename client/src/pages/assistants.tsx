@@ -0,0 +1,352 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Loader2, Plus, RotateCcw, Upload } from "lucide-react";
+import type {
+  AssistantDetail,
+  AssistantDetailResponse,
+  AssistantSummary,
+  AssistantVersion,
+} from "@shared/schema";
+import StaffLayout from "@/components/staff-layout";
+import AssistantConfigForm, {
+  blankAssistantConfig,
+  type AssistantConfigSubmission,
+} from "@/components/assistant-config-form";
+import AssistantVersionDiff from "@/components/assistant-version-diff";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { formatDateTime } from "@/lib/format";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+function invalidateAssistants() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/assistants"),
+  });
+}
+
+function VersionHistory({ assistant }: { assistant: AssistantDetailResponse }) {
+  const { toast } = useToast();
+  const { versions, publishedVersion } = assistant;
+  const [compareTo, setCompareTo] = useState(versions[0].version);
+  const [compareFrom, setCompareFrom] = useState(versions[1]?.version ?? versions[0].version);
+
+  const publish = useMutation<AssistantDetailResponse, Error, AssistantVersion>({
+    mutationFn: async (version) => {
+      const res = await apiRequest("POST", `/api/assistants/${assistant.id}/versions/${version.version}/publish`);
+      return await res.json();
+    },
+    onSuccess: (_updated, version) => {
+      const rollback = publishedVersion !== null && version.version < publishedVersion;
+      toast({
+        title: rollback ? `Rolled back to version ${version.version}` : `Version ${version.version} is live`,
+        description: `Pushed to the ${assistant.provider} provider.`,
+      });
+      invalidateAssistants();
+    },
+    onError: (error) => {
+      toast({ title: "Could not publish the version", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const compare = (version: AssistantVersion) => {
+    const previous = versions.find((entry) => entry.version < version.version);
+    setCompareTo(version.version);
+    setCompareFrom(previous?.version ?? version.version);
+  };
+
+  const before = versions.find((entry) => entry.version === compareFrom);
+  const after = versions.find((entry) => entry.version === compareTo);
+
+  return (
+    <div className="space-y-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Version</TableHead>
+            <TableHead>Note</TableHead>
+            <TableHead>Saved</TableHead>
+            <TableHead className="text-end">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.map((version) => (
+            <TableRow key={version.id} className={cn(version.version === compareTo && "bg-muted")}>
+              <TableCell className="whitespace-nowrap">
+                v{version.version}
+                {version.version === publishedVersion && <Badge className="ms-2">live</Badge>}
+              </TableCell>
+              <TableCell className="max-w-xs">{version.note ?? <span className="text-gray-500">—</span>}</TableCell>
+              <TableCell className="whitespace-nowrap">{formatDateTime(version.createdAt)}</TableCell>
+              <TableCell className="text-end whitespace-nowrap">
+                <Button variant="ghost" size="sm" onClick={() => compare(version)}>
+                  Compare
+                </Button>
+                {version.version !== publishedVersion && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => publish.mutate(version)}
+                    disabled={publish.isPending}
+                  >
+                    {publish.isPending && publish.variables?.version === version.version ? (
+                      <Loader2 className="w-4 h-4 me-1 animate-spin" />
+                    ) : publishedVersion !== null && version.version < publishedVersion ? (
+                      <RotateCcw className="w-4 h-4 me-1" />
+                    ) : (
+                      <Upload className="w-4 h-4 me-1" />
+                    )}
+                    {publishedVersion !== null && version.version < publishedVersion ? "Roll back" : "Publish"}
+                  </Button>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      {versions.length > 1 && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span>Changes from</span>
+            <Select value={String(compareFrom)} onValueChange={(value) => setCompareFrom(Number(value))}>
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <span>to</span>
+            <Select value={String(compareTo)} onValueChange={(value) => setCompareTo(Number(value))}>
+              <SelectTrigger className="w-24 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {versions.map((version) => (
+                  <SelectItem key={version.id} value={String(version.version)}>v{version.version}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {before && after && <AssistantVersionDiff before={before} after={after} />}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function AssistantPanel({ assistantId }: { assistantId: number }) {
+  const { toast } = useToast();
+  const [tab, setTab] = useState("edit");
+  const { data: assistant, isLoading, error } = useQuery<AssistantDetailResponse>({
+    queryKey: [`/api/assistants/${assistantId}`],
+  });
+
+  const saveVersion = useMutation<AssistantVersion, Error, AssistantConfigSubmission>({
+    mutationFn: async ({ config, note }) => {
+      const res = await apiRequest("POST", `/api/assistants/${assistantId}/versions`, { config, note });
+      return await res.json();
+    },
+    onSuccess: (version) => {
+      toast({ title: `Saved version ${version.version}`, description: "Publish it from the version history." });
+      invalidateAssistants();
+      setTab("versions");
+    },
+    onError: (error) => {
+      toast({ title: "Could not save the version", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+      </div>
+    );
+  }
+  if (error || !assistant) {
+    return <p className="text-red-600">Failed to load the assistant: {error?.message}</p>;
+  }
+
+  const [latest] = assistant.versions;
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader>
+        <CardTitle className="text-lg flex flex-wrap items-center gap-2">
+          {assistant.name}
+          {assistant.publishedVersion !== null ? (
+            <Badge variant="secondary">v{assistant.publishedVersion} live</Badge>
+          ) : (
+            <Badge variant="outline">never published</Badge>
+          )}
+        </CardTitle>
+        <p className="text-sm text-gray-500">
+          {assistant.providerAssistantId ? (
+            <>
+              {assistant.provider} ID <span className="font-mono break-all">{assistant.providerAssistantId}</span>
+            </>
+          ) : (
+            `Created at the ${assistant.provider} provider on first publish`
+          )}
+          {assistant.publishedAt && ` · published ${formatDateTime(assistant.publishedAt)}`}
+        </p>
+      </CardHeader>
+      <CardContent>
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList className="mb-4">
+            <TabsTrigger value="edit">Edit</TabsTrigger>
+            <TabsTrigger value="versions">Versions ({assistant.versions.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="edit">
+            {/* Keyed by version so a save starts the form over from what was stored */}
+            <AssistantConfigForm
+              key={latest.version}
+              mode="edit"
+              defaults={latest.config}
+              pending={saveVersion.isPending}
+              onSubmit={(submission) => saveVersion.mutate(submission)}
+            />
+          </TabsContent>
+          <TabsContent value="versions">
+            <VersionHistory key={latest.version} assistant={assistant} />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function AssistantsPage() {
+  const { toast } = useToast();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [creating, setCreating] = useState(false);
+
+  const { data: assistants, isLoading, error } = useQuery<AssistantSummary[]>({
+    queryKey: ["/api/assistants"],
+  });
+
+  const createAssistant = useMutation<AssistantDetail, Error, AssistantConfigSubmission>({
+    mutationFn: async (submission) => {
+      const res = await apiRequest("POST", "/api/assistants", submission);
+      return await res.json();
+    },
+    onSuccess: (assistant) => {
+      toast({ title: `Created ${assistant.name}`, description: "Publish version 1 to push it to the provider." });
+      invalidateAssistants();
+      setCreating(false);
+      setSelectedId(assistant.id);
+    },
+    onError: (error) => {
+      toast({ title: "Could not create the assistant", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const activeId = creating ? null : selectedId ?? assistants?.[0]?.id ?? null;
+
+  return (
+    <StaffLayout
+      title="Assistants"
+      description="Prompts, voices and models, versioned and pushed to the voice provider"
+      actions={
+        <Button onClick={() => setCreating(true)} disabled={creating}>
+          <Plus className="w-4 h-4 me-2" />
+          New assistant
+        </Button>
+      }
+    >
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6 items-start">
+        <Card className="shadow-xl">
+          <CardContent className="p-2">
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="w-5 h-5 animate-spin text-brand-600" />
+              </div>
+            ) : error ? (
+              <p className="p-4 text-sm text-red-600">Failed to load assistants: {error.message}</p>
+            ) : assistants?.length === 0 ? (
+              <p className="p-4 text-sm text-gray-500">No assistants yet.</p>
+            ) : (
+              <nav className="flex flex-col gap-1">
+                {assistants?.map((assistant) => (
+                  <button
+                    key={assistant.id}
+                    type="button"
+                    onClick={() => {
+                      setCreating(false);
+                      setSelectedId(assistant.id);
+                    }}
+                    className={cn(
+                      "rounded-md px-3 py-2 text-start transition-colors hover:bg-accent",
+                      assistant.id === activeId && "bg-muted",
+                    )}
+                  >
+                    <p className="text-sm font-medium">{assistant.name}</p>
+                    <p className="text-xs text-gray-500">
+                      v{assistant.latestVersion}
+                      {assistant.publishedVersion !== null
+                        ? ` · v${assistant.publishedVersion} live`
+                        : " · not published"}
+                    </p>
+                  </button>
+                ))}
+              </nav>
+            )}
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-3">
+          {creating ? (
+            <Card className="shadow-xl">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle className="text-lg">New assistant</CardTitle>
+                <Button variant="ghost" size="sm" onClick={() => setCreating(false)}>
+                  Cancel
+                </Button>
+              </CardHeader>
+              <CardContent>
+                <AssistantConfigForm
+                  mode="create"
+                  defaults={blankAssistantConfig}
+                  pending={createAssistant.isPending}
+                  onSubmit={(submission) => createAssistant.mutate(submission)}
+                />
+              </CardContent>
+            </Card>
+          ) : activeId !== null ? (
+            <AssistantPanel key={activeId} assistantId={activeId} />
+          ) : (
+            !isLoading && (
+              <Card className="shadow-xl">
+                <CardContent className="p-8 text-center text-gray-500">
+                  Create an assistant to manage its prompt, voice and model here.
+                </CardContent>
+              </Card>
+            )
+          )}
+        </div>
+      </div>
+    </StaffLayout>
+  );
+}
@@ -0,0 +1,70 @@
+import { Redirect, useSearch } from "wouter";
+import { LogIn, UserPlus } from "lucide-react";
+import { loginSchema, registerUserSchema } from "@shared/schema";
+import { useAuth } from "@/hooks/use-auth";
+import CredentialsForm from "@/components/credentials-form";
+import { Card, CardContent } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+
+export default function AuthPage() {
+  const { user, loginMutation, registerMutation } = useAuth();
+  const next = new URLSearchParams(useSearch()).get("next");
+
+  if (user) {
+    // Only follow same-site paths to avoid an open redirect
+    return <Redirect to={next?.startsWith("/") && !next.startsWith("//") ? next : "/calls"} />;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center px-4">
+      <Card className="w-full max-w-md shadow-2xl border-0 bg-white/95 dark:bg-gray-900/95">
+        <CardContent className="p-8">
+          <div className="text-center mb-6">
+            <img src="/vela.png" alt="Vela AI" className="w-32 h-auto mx-auto mb-4" />
+            <h1 className="text-2xl font-bold vela-dark dark:text-white">Staff Access</h1>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              Sign in to review calls and manage the voice agent
+            </p>
+          </div>
+
+          <Tabs defaultValue="login">
+            <TabsList className="grid w-full grid-cols-2 mb-6">
+              <TabsTrigger value="login">
+                <LogIn className="w-4 h-4 me-2" />
+                Sign in
+              </TabsTrigger>
+              <TabsTrigger value="register">
+                <UserPlus className="w-4 h-4 me-2" />
+                Register
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="login">
+              <CredentialsForm
+                schema={loginSchema}
+                submitLabel="Sign in"
+                isPending={loginMutation.isPending}
+                onSubmit={(values) => loginMutation.mutate(values)}
+                autoCompletePassword="current-password"
+              />
+            </TabsContent>
+
+            <TabsContent value="register">
+              <p className="text-xs text-gray-500 dark:text-gray-400 mb-4">
+                Self-registration is only open until the first staff account exists. After that,
+                signed-in staff add colleagues from the staff area.
+              </p>
+              <CredentialsForm
+                schema={registerUserSchema}
+                submitLabel="Create account"
+                isPending={registerMutation.isPending}
+                onSubmit={(values) => registerMutation.mutate(values)}
+                autoCompletePassword="new-password"
+              />
+            </TabsContent>
+          </Tabs>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useState } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import type { DateRange } from "react-day-picker";
+import { Loader2, X } from "lucide-react";
+import { callStatuses, type CallListResponse, type CallStatus } from "@shared/schema";
+import StaffLayout from "@/components/staff-layout";
+import CallDetailView from "@/components/call-detail";
+import DateRangePicker, { setDateRangeParams } from "@/components/date-range-picker";
+import ListPagination from "@/components/list-pagination";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { formatDateTime, formatDuration } from "@/lib/format";
+
+const PAGE_SIZE = 20;
+
+function buildCallsUrl(range: DateRange | undefined, status: CallStatus | "all", page: number) {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  setDateRangeParams(params, range);
+  if (status !== "all") {
+    params.set("status", status);
+  }
+  return `/api/calls?${params}`;
+}
+
+export default function CallsPage() {
+  const [range, setRange] = useState<DateRange | undefined>();
+  const [status, setStatus] = useState<CallStatus | "all">("all");
+  const [page, setPage] = useState(1);
+  const [selectedCallId, setSelectedCallId] = useState<number | null>(null);
+
+  const { data, isLoading, isFetching, error } = useQuery<CallListResponse>({
+    queryKey: [buildCallsUrl(range, status, page)],
+    placeholderData: keepPreviousData,
+    // New calls arrive all the time; refetch whenever the page is revisited
+    staleTime: 0,
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  const updateFilters = (update: () => void) => {
+    update();
+    setPage(1);
+  };
+
+  return (
+    <StaffLayout
+      title="Call History"
+      description={data ? `${data.total} recorded calls` : "Recorded demo calls"}
+    >
+      <Card className="shadow-xl">
+        <CardContent className="p-6 space-y-4">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <DateRangePicker value={range} onChange={(next) => updateFilters(() => setRange(next))} />
+
+            <Select
+              value={status}
+              onValueChange={(value) => updateFilters(() => setStatus(value as CallStatus | "all"))}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {callStatuses.map((s) => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {(range || status !== "all") && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => updateFilters(() => {
+                  setRange(undefined);
+                  setStatus("all");
+                })}
+              >
+                <X className="w-4 h-4 me-1" />
+                Clear filters
+              </Button>
+            )}
+
+            {isFetching && <Loader2 className="w-4 h-4 animate-spin text-brand-600" />}
+          </div>
+
+          {/* Results */}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Started</TableHead>
+                <TableHead>Duration</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>End reason</TableHead>
+                <TableHead>Language</TableHead>
+                <TableHead className="text-end">Errors</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8">
+                    <Loader2 className="w-5 h-5 animate-spin inline text-brand-600" />
+                  </TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-red-600">
+                    Failed to load calls: {error.message}
+                  </TableCell>
+                </TableRow>
+              ) : data?.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                    No calls match these filters.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data?.items.map((call) => (
+                  <TableRow
+                    key={call.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedCallId(call.id)}
+                  >
+                    <TableCell>{formatDateTime(call.startedAt)}</TableCell>
+                    <TableCell>{call.durationSeconds != null ? formatDuration(call.durationSeconds) : "—"}</TableCell>
+                    <TableCell>
+                      <Badge variant={call.status === "failed" ? "destructive" : "secondary"}>{call.status}</Badge>
+                    </TableCell>
+                    <TableCell>{call.endReason ?? "—"}</TableCell>
+                    <TableCell>{call.language ?? "—"}</TableCell>
+                    <TableCell className={`text-end ${call.errorCount > 0 ? "text-red-600 font-semibold" : ""}`}>
+                      {call.errorCount}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <Sheet open={selectedCallId !== null} onOpenChange={(open) => !open && setSelectedCallId(null)}>
+        <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Call #{selectedCallId}</SheetTitle>
+            <SheetDescription>Full transcript and event log</SheetDescription>
+          </SheetHeader>
+          {selectedCallId !== null && <CallDetailView callId={selectedCallId} />}
+        </SheetContent>
+      </Sheet>
+    </StaffLayout>
+  );
+}
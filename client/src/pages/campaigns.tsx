@@ -0,0 +1,328 @@
+import { useState } from "react";
+import { useMutation, useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Loader2, Pause, Play, Plus } from "lucide-react";
+import {
+  outboundCallStatuses,
+  type Campaign,
+  type CampaignListResponse,
+  type CampaignWithProgress,
+  type OutboundCallListResponse,
+  type OutboundCallStatus,
+} from "@shared/schema";
+import StaffLayout from "@/components/staff-layout";
+import ListPagination from "@/components/list-pagination";
+import OutboundAttempts from "@/components/outbound-attempts";
+import CampaignImportDialog from "@/components/campaign-import-dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAvailableAssistants } from "@/hooks/use-assistants";
+import { useToast } from "@/hooks/use-toast";
+import { assistantLabel } from "@/lib/config";
+import { formatDateTime } from "@/lib/format";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+
+const PAGE_SIZE = 20;
+const CONTACTS_PAGE_SIZE = 50;
+// Running campaigns change with every attempt; keep their numbers close to live
+const ACTIVE_REFRESH_MS = 3000;
+
+function buildContactsUrl(campaignId: number, status: OutboundCallStatus | "all", page: number) {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(CONTACTS_PAGE_SIZE) });
+  if (status !== "all") {
+    params.set("status", status);
+  }
+  return `/api/campaigns/${campaignId}/contacts?${params}`;
+}
+
+function invalidateCampaigns() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/campaigns"),
+  });
+}
+
+// Contacts no longer waiting or on the phone
+function finishedContacts({ progress }: CampaignWithProgress) {
+  return progress.completed + progress.failed + progress.cancelled;
+}
+
+function CampaignProgress({ campaign }: { campaign: CampaignWithProgress }) {
+  const done = finishedContacts(campaign);
+  return (
+    <div className="space-y-1 min-w-[10rem]">
+      <Progress value={campaign.contacts > 0 ? (done / campaign.contacts) * 100 : 0} className="h-2" />
+      <p className="text-xs text-gray-500">
+        {done} of {campaign.contacts} done · {campaign.progress.completed} reached
+        {campaign.progress.dialing > 0 && ` · ${campaign.progress.dialing} dialing`}
+      </p>
+    </div>
+  );
+}
+
+function ContactsTable({ campaign }: { campaign: CampaignWithProgress }) {
+  const [status, setStatus] = useState<OutboundCallStatus | "all">("all");
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading, isFetching, error } = useQuery<OutboundCallListResponse>({
+    queryKey: [buildContactsUrl(campaign.id, status, page)],
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    refetchInterval: campaign.status === "running" ? ACTIVE_REFRESH_MS : false,
+  });
+
+  const variableNames = Object.values(campaign.variableMapping);
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+  const columnCount = 3 + variableNames.length;
+
+  return (
+    <Card className="shadow-xl">
+      <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+        <CardTitle className="text-lg">{campaign.name}: contacts</CardTitle>
+        <div className="flex items-center gap-3">
+          {isFetching && <Loader2 className="w-4 h-4 animate-spin text-brand-600" />}
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value as OutboundCallStatus | "all");
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-44">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All contacts</SelectItem>
+              {outboundCallStatuses.map((s) => (
+                <SelectItem key={s} value={s}>{s}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Number</TableHead>
+              {variableNames.map((name) => (
+                <TableHead key={name} className="font-mono">{name}</TableHead>
+              ))}
+              <TableHead>Status</TableHead>
+              <TableHead>Attempts</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="text-center py-8">
+                  <Loader2 className="w-5 h-5 animate-spin inline text-brand-600" />
+                </TableCell>
+              </TableRow>
+            ) : error ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="text-center py-8 text-red-600">
+                  Failed to load contacts: {error.message}
+                </TableCell>
+              </TableRow>
+            ) : data?.items.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={columnCount} className="text-center py-8 text-gray-500">
+                  No contacts match this filter.
+                </TableCell>
+              </TableRow>
+            ) : (
+              data?.items.map((contact) => (
+                <TableRow key={contact.id}>
+                  <TableCell className="font-mono whitespace-nowrap">{contact.phoneNumber}</TableCell>
+                  {variableNames.map((name) => (
+                    <TableCell key={name}>{contact.variables?.[name] ?? "—"}</TableCell>
+                  ))}
+                  <TableCell>
+                    <Badge variant={contact.status === "failed" ? "destructive" : "secondary"}>{contact.status}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <OutboundAttempts call={contact} />
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+
+        <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export default function CampaignsPage() {
+  const { toast } = useToast();
+  const assistants = useAvailableAssistants();
+  const [page, setPage] = useState(1);
+  const [importOpen, setImportOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  const { data, isLoading, isFetching, error } = useQuery<CampaignListResponse>({
+    queryKey: [`/api/campaigns?page=${page}&pageSize=${PAGE_SIZE}`],
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    refetchInterval: (query) =>
+      query.state.data?.items.some((campaign) => campaign.status === "running") ? ACTIVE_REFRESH_MS : false,
+  });
+
+  const setRunning = useMutation<Campaign, Error, { id: number; action: "pause" | "resume" }>({
+    mutationFn: async ({ id, action }) => {
+      const res = await apiRequest("POST", `/api/campaigns/${id}/${action}`);
+      return await res.json();
+    },
+    onSuccess: () => invalidateCampaigns(),
+    onError: (error) => {
+      toast({ title: "Could not update the campaign", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const labelFor = (assistantId: string) => {
+    const match = assistants.find((option) => option.assistantId === assistantId);
+    return match ? assistantLabel(match) : assistantId;
+  };
+
+  const selected = data?.items.find((campaign) => campaign.id === selectedId);
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <StaffLayout
+      title="Campaigns"
+      description="Outbound calls to imported contact lists"
+      actions={
+        <Button onClick={() => setImportOpen(true)}>
+          <Plus className="w-4 h-4 me-2" />
+          New campaign
+        </Button>
+      }
+    >
+      <div className="space-y-6">
+        <Card className="shadow-xl">
+          <CardContent className="p-6 space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Assistant</TableHead>
+                  <TableHead>Calling window</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-end">
+                    {isFetching && <Loader2 className="w-4 h-4 animate-spin text-brand-600 inline" />}
+                  </TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="w-5 h-5 animate-spin inline text-brand-600" />
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-red-600">
+                      Failed to load campaigns: {error.message}
+                    </TableCell>
+                  </TableRow>
+                ) : data?.items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                      No campaigns yet. Import a CSV of contacts to start one.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.items.map((campaign) => (
+                    <TableRow
+                      key={campaign.id}
+                      onClick={() => setSelectedId(campaign.id)}
+                      className={cn("cursor-pointer", campaign.id === selectedId && "bg-muted")}
+                    >
+                      <TableCell>
+                        <p className="font-medium">{campaign.name}</p>
+                        <p className="text-xs text-gray-500">{formatDateTime(campaign.createdAt)}</p>
+                      </TableCell>
+                      <TableCell>{labelFor(campaign.assistantId)}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {campaign.windowStart}–{campaign.windowEnd}
+                        <p className="text-xs text-gray-500">{campaign.timeZone}</p>
+                      </TableCell>
+                      <TableCell>
+                        <CampaignProgress campaign={campaign} />
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={campaign.status === "running" ? "default" : "secondary"}>{campaign.status}</Badge>
+                      </TableCell>
+                      <TableCell className="text-end" onClick={(event) => event.stopPropagation()}>
+                        {campaign.status !== "completed" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() =>
+                              setRunning.mutate({
+                                id: campaign.id,
+                                action: campaign.status === "running" ? "pause" : "resume",
+                              })
+                            }
+                            disabled={setRunning.isPending && setRunning.variables?.id === campaign.id}
+                          >
+                            {campaign.status === "running" ? (
+                              <>
+                                <Pause className="w-4 h-4 me-1" />
+                                Pause
+                              </>
+                            ) : (
+                              <>
+                                <Play className="w-4 h-4 me-1" />
+                                Resume
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+
+        {selected && <ContactsTable key={selected.id} campaign={selected} />}
+      </div>
+
+      <CampaignImportDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        onCreated={(result) => {
+          invalidateCampaigns();
+          setPage(1);
+          setSelectedId(result.campaign.id);
+        }}
+      />
+    </StaffLayout>
+  );
+}
@@ -0,0 +1,295 @@
+import { useState, type ReactNode } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { eachDayOfInterval, format, parseISO, startOfDay, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, Line, LineChart, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { Loader2, RotateCcw } from "lucide-react";
+import type { AssistantUsage, CallBreakdown, CallOverview, DailyCallStats } from "@shared/schema";
+import StaffLayout from "@/components/staff-layout";
+import DateRangePicker, { setDateRangeParams } from "@/components/date-range-picker";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { formatDuration } from "@/lib/format";
+import { demoLanguages } from "@/lib/languages";
+
+const DEFAULT_RANGE_DAYS = 30;
+
+function defaultRange(): DateRange {
+  const today = startOfDay(new Date());
+  return { from: subDays(today, DEFAULT_RANGE_DAYS - 1), to: today };
+}
+
+function isDefaultRange(range: DateRange | undefined) {
+  const initial = defaultRange();
+  return range?.from?.getTime() === initial.from?.getTime() && range?.to?.getTime() === initial.to?.getTime();
+}
+
+// Per-day buckets are cut in the viewer's zone so they line up with the date picker
+const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+function analyticsUrl(path: string, range: DateRange | undefined, assistantId: string) {
+  const params = new URLSearchParams({ timeZone });
+  setDateRangeParams(params, range);
+  if (assistantId !== "all") {
+    params.set("assistantId", assistantId);
+  }
+  return `/api/analytics/${path}?${params}`;
+}
+
+// The API only returns days that had calls; quiet days should still show as zero
+function fillMissingDays(stats: DailyCallStats[], range: DateRange | undefined): DailyCallStats[] {
+  const first = range?.from ?? (stats.length > 0 ? parseISO(stats[0].day) : undefined);
+  const last = range?.to ?? range?.from ?? (stats.length > 0 ? parseISO(stats[stats.length - 1].day) : undefined);
+  if (!first || !last) return stats;
+  const byDay = new Map(stats.map((s) => [s.day, s]));
+  return eachDayOfInterval({ start: first, end: last }).map((date) => {
+    const day = format(date, "yyyy-MM-dd");
+    return byDay.get(day) ?? { day, calls: 0, ended: 0, failed: 0, avgDurationSeconds: null, p95DurationSeconds: null };
+  });
+}
+
+function languageLabel(code: string | null) {
+  if (code === null) return "Not recorded";
+  return demoLanguages.find((language) => language.code === code.toUpperCase())?.title ?? code;
+}
+
+function percent(part: number, whole: number) {
+  return whole === 0 ? "—" : `${Math.round((part / whole) * 100)}%`;
+}
+
+const volumeConfig = {
+  ended: { label: "Ended", color: "var(--vela-success)" },
+  failed: { label: "Failed", color: "var(--vela-error)" },
+  unfinished: { label: "Unfinished", color: "hsl(220, 9%, 70%)" },
+} satisfies ChartConfig;
+
+const durationConfig = {
+  avgDurationSeconds: { label: "Average (s)", color: "var(--vela-blue)" },
+  p95DurationSeconds: { label: "p95 (s)", color: "hsl(262, 83%, 58%)" },
+} satisfies ChartConfig;
+
+const breakdownConfig = {
+  calls: { label: "Calls", color: "var(--vela-blue)" },
+} satisfies ChartConfig;
+
+interface StatCardProps {
+  label: string;
+  value: string;
+  hint?: string;
+}
+
+function StatCard({ label, value, hint }: StatCardProps) {
+  return (
+    <Card className="shadow-xl">
+      <CardContent className="p-6">
+        <p className="text-sm font-medium text-gray-500 dark:text-gray-400">{label}</p>
+        <p className="text-3xl font-bold text-gray-900 dark:text-white mt-1">{value}</p>
+        {hint && <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{hint}</p>}
+      </CardContent>
+    </Card>
+  );
+}
+
+interface ChartCardProps {
+  title: string;
+  description: string;
+  className?: string;
+  children: ReactNode;
+}
+
+function ChartCard({ title, description, className, children }: ChartCardProps) {
+  return (
+    <Card className={`shadow-xl ${className ?? ""}`}>
+      <CardHeader>
+        <CardTitle className="text-lg">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>{children}</CardContent>
+    </Card>
+  );
+}
+
+function BreakdownChart({ data }: { data: { label: string; calls: number }[] }) {
+  if (data.length === 0) {
+    return <p className="text-sm text-gray-500 py-8 text-center">No calls in this range.</p>;
+  }
+  return (
+    <ChartContainer config={breakdownConfig} className="aspect-auto w-full" style={{ height: 40 + data.length * 36 }}>
+      <BarChart data={data} layout="vertical" margin={{ left: 8, right: 16 }} accessibilityLayer>
+        <CartesianGrid horizontal={false} />
+        <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+        <YAxis type="category" dataKey="label" width={120} tickLine={false} axisLine={false} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="calls" fill="var(--color-calls)" radius={4} />
+      </BarChart>
+    </ChartContainer>
+  );
+}
+
+export default function DashboardPage() {
+  const [range, setRange] = useState<DateRange | undefined>(defaultRange);
+  const [assistantId, setAssistantId] = useState("all");
+
+  // Same caching rules as the call list: calls keep arriving
+  const queryOptions = { placeholderData: keepPreviousData, staleTime: 0 };
+  const overview = useQuery<CallOverview>({ queryKey: [analyticsUrl("overview", range, assistantId)], ...queryOptions });
+  const daily = useQuery<DailyCallStats[]>({ queryKey: [analyticsUrl("daily", range, assistantId)], ...queryOptions });
+  const languages = useQuery<CallBreakdown[]>({ queryKey: [analyticsUrl("languages", range, assistantId)], ...queryOptions });
+  const endReasons = useQuery<CallBreakdown[]>({ queryKey: [analyticsUrl("end-reasons", range, assistantId)], ...queryOptions });
+  const assistants = useQuery<AssistantUsage[]>({ queryKey: ["/api/analytics/assistants"] });
+
+  const isFetching = [overview, daily, languages, endReasons].some((query) => query.isFetching);
+  const error = [overview, daily, languages, endReasons].find((query) => query.error)?.error;
+
+  const days = fillMissingDays(daily.data ?? [], range).map((d) => ({ ...d, unfinished: d.calls - d.ended - d.failed }));
+  const totals = overview.data;
+  const finished = totals ? totals.ended + totals.failed : 0;
+  const outcomes = totals
+    ? [
+        { outcome: "ended", calls: totals.ended, fill: "var(--color-ended)" },
+        { outcome: "failed", calls: totals.failed, fill: "var(--color-failed)" },
+        { outcome: "unfinished", calls: totals.calls - finished, fill: "var(--color-unfinished)" },
+      ].filter((o) => o.calls > 0)
+    : [];
+
+  return (
+    <StaffLayout title="Dashboard" description="Call volume, duration and outcomes from recorded calls">
+      <div className="space-y-6">
+        {/* Filters */}
+        <div className="flex flex-wrap items-center gap-3">
+          <DateRangePicker value={range} onChange={setRange} />
+
+          <Select value={assistantId} onValueChange={setAssistantId}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All assistants</SelectItem>
+              {assistants.data?.map((a) => (
+                <SelectItem key={a.assistantId} value={a.assistantId}>
+                  {a.assistantId} ({a.calls})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {(!isDefaultRange(range) || assistantId !== "all") && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setRange(defaultRange());
+                setAssistantId("all");
+              }}
+            >
+              <RotateCcw className="w-4 h-4 me-1" />
+              Last {DEFAULT_RANGE_DAYS} days, all assistants
+            </Button>
+          )}
+
+          {isFetching && <Loader2 className="w-4 h-4 animate-spin text-brand-600" />}
+        </div>
+
+        {error ? (
+          <p className="text-red-600">Failed to load analytics: {error.message}</p>
+        ) : overview.isLoading || !totals ? (
+          <div className="flex justify-center py-16">
+            <Loader2 className="w-6 h-6 animate-spin text-brand-600" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <StatCard label="Calls" value={String(totals.calls)} hint={`${totals.calls - finished} unfinished`} />
+              <StatCard
+                label="Success rate"
+                value={percent(totals.ended, finished)}
+                hint={`${totals.failed} failed of ${finished} finished`}
+              />
+              <StatCard
+                label="Average duration"
+                value={totals.avgDurationSeconds != null ? formatDuration(totals.avgDurationSeconds) : "—"}
+              />
+              <StatCard
+                label="p95 duration"
+                value={totals.p95DurationSeconds != null ? formatDuration(totals.p95DurationSeconds) : "—"}
+                hint="95% of calls were shorter"
+              />
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-3">
+              <ChartCard title="Calls per day" description="By outcome" className="lg:col-span-2">
+                <ChartContainer config={volumeConfig} className="aspect-auto h-72 w-full">
+                  <BarChart data={days} accessibilityLayer>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={(day) => format(parseISO(day), "MMM d")} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => format(parseISO(day), "PP")} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="ended" stackId="calls" fill="var(--color-ended)" />
+                    <Bar dataKey="failed" stackId="calls" fill="var(--color-failed)" />
+                    <Bar dataKey="unfinished" stackId="calls" fill="var(--color-unfinished)" radius={[4, 4, 0, 0]} />
+                  </BarChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <ChartCard title="Success vs errors" description={`${percent(totals.failed, finished)} of finished calls failed`}>
+                {outcomes.length === 0 ? (
+                  <p className="text-sm text-gray-500 py-8 text-center">No calls in this range.</p>
+                ) : (
+                  <ChartContainer config={volumeConfig} className="aspect-square h-72 mx-auto">
+                    <PieChart>
+                      <ChartTooltip content={<ChartTooltipContent nameKey="outcome" hideLabel />} />
+                      <Pie data={outcomes} dataKey="calls" nameKey="outcome" innerRadius={60} strokeWidth={4} />
+                      <ChartLegend content={<ChartLegendContent nameKey="outcome" />} />
+                    </PieChart>
+                  </ChartContainer>
+                )}
+              </ChartCard>
+
+              <ChartCard title="Call duration" description="Average and p95 per day, in seconds" className="lg:col-span-3">
+                <ChartContainer config={durationConfig} className="aspect-auto h-64 w-full">
+                  <LineChart data={days} accessibilityLayer>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="day" tickLine={false} axisLine={false} minTickGap={24} tickFormatter={(day) => format(parseISO(day), "MMM d")} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => format(parseISO(day), "PP")} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Line dataKey="avgDurationSeconds" stroke="var(--color-avgDurationSeconds)" strokeWidth={2} dot={false} />
+                    <Line dataKey="p95DurationSeconds" stroke="var(--color-p95DurationSeconds)" strokeWidth={2} dot={false} />
+                  </LineChart>
+                </ChartContainer>
+              </ChartCard>
+
+              <ChartCard title="Languages" description="Calls per assistant language">
+                <BreakdownChart
+                  data={(languages.data ?? []).map((l) => ({ label: languageLabel(l.value), calls: l.calls }))}
+                />
+              </ChartCard>
+
+              <ChartCard title="Top end reasons" description="Why calls ended" className="lg:col-span-2">
+                <BreakdownChart
+                  data={(endReasons.data ?? []).map((r) => ({ label: r.value ?? "Not recorded", calls: r.calls }))}
+                />
+              </ChartCard>
+            </div>
+          </>
+        )}
+      </div>
+    </StaffLayout>
+  );
+}
@@ -1,189 +1,410 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useCallback, useMemo, useRef } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
-import { ScrollArea } from "@/components/ui/scroll-area";
-import { Phone, PhoneOff, Globe, Terminal, Trash2, Clock, CheckCircle, AlertCircle, Info, Loader2 } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Phone, PhoneOff, Globe, Clock, CheckCircle, AlertCircle, Info, Loader2, LogIn, ChevronDown, Headphones, Mic, MicOff, Ear, Volume2, Send, UserRound, WifiOff, Timer, Mail } from "lucide-react";
+import { Link } from "wouter";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import type { CallerContext, InsertCall } from "@shared/schema";
 import { US, ES, FR, DE, CN, SA, IT, JP,TN } from 'country-flag-icons/react/3x2';
+import { useConfig } from "@/hooks/use-config";
+import { useAvailableAssistants } from "@/hooks/use-assistants";
+import { useI18n } from "@/hooks/use-i18n";
+import LanguageSwitcher from "@/components/language-switcher";
+import ThemeToggle from "@/components/theme-toggle";
+import { createVoiceEngine, type VoiceEngine } from "@/lib/voice";
+import { appendTypedMessage, applyTranscriptEvent, type TranscriptEntry } from "@/lib/transcript";
+import TranscriptPanel from "@/components/transcript-panel";
+import { CallRecorder, type RecordedCall } from "@/lib/call-recorder";
+import { formatDuration, formatLatency } from "@/lib/format";
+import { TurnLatencyTracker, type TurnTiming } from "@/lib/latency";
+import { summarizeLatency } from "@shared/latency";
+import { callLog, type LogLevel, type LogSource } from "@/lib/log-store";
+import CallLogPanel from "@/components/call-log-panel";
+import AudioCheckPanel from "@/components/audio-check-panel";
+import { useMicrophoneCheck } from "@/hooks/use-microphone-check";
+import { usePushToTalk } from "@/hooks/use-push-to-talk";
+import { useMicrophoneLevel } from "@/hooks/use-microphone-level";
+import AudioVisualizer from "@/components/audio-visualizer";
+import CallerContextForm from "@/components/caller-context-form";
+import LeadCaptureDialog from "@/components/lead-capture-dialog";
+import { useCallSession } from "@/hooks/use-call-session";
+import type { CallState } from "@/lib/call-machine";
+import {
+  callerContextFormSchemaWithMessages,
+  compactCallerContext,
+  isCallerVariable,
+  toCallOverrides,
+} from "@/lib/caller-context";
+import { checkMicrophoneAccess } from "@/lib/audio-devices";
+import type { AssistantOption } from "@/lib/config";
+import { demoLanguages, languageTitle, type LanguageCode } from "@/lib/languages";
 
-interface LogEntry {
-  id: string;
-  timestamp: string;
-  message: string;
-  type: "info" | "success" | "error";
-}
+const languageFlags: Record<LanguageCode, typeof US> = { EN: US, ES, FR, DE, CN, AR: SA, IT, JP, TN };
+
+const silence = () => 0;
+
+const capabilities = [
+  { key: "inbound", delay: "500ms" },
+  { key: "outbound", delay: "600ms" },
+  { key: "service", delay: "700ms" },
+  { key: "leads", delay: "800ms" },
+] as const;
 
 export default function Home() {
-  const [callStatus, setCallStatus] = useState<"idle" | "connecting" | "connected" | "error">("idle");
-  const [callDuration, setCallDuration] = useState(0);
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  
-  const callStartTimeRef = useRef<number | null>(null);
-  const durationIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const vapiClientRef = useRef<any>(null);
-
-  // Initialize Vapi client
+  const config = useConfig();
+  const { t, intlLocale } = useI18n();
+  const [engine, setEngine] = useState<VoiceEngine | null>(null);
+  const [transcript, setTranscript] = useState<TranscriptEntry[]>([]);
+  const [audioCheckOpen, setAudioCheckOpen] = useState(false);
+  const [callerFormOpen, setCallerFormOpen] = useState(false);
+  // Same rules as the server, with the messages in the visitor's language
+  const callerFormSchema = useMemo(
+    () =>
+      callerContextFormSchemaWithMessages(
+        (issue) => t(`callerForm.error.${issue}`),
+        (issue, name) =>
+          t(`callerForm.error.${issue}`, {
+            placeholder: `{{${name}}}`,
+            field: isCallerVariable(name) ? t(`callerForm.${name}`) : name,
+          }),
+      ),
+    [t],
+  );
+  const callerForm = useForm<CallerContext>({
+    resolver: zodResolver(callerFormSchema),
+    defaultValues: { prospectName: '', company: '', useCase: '', firstMessage: '' },
+  });
+  const micCheck = useMicrophoneCheck();
+  const assistants = useAvailableAssistants();
+  const [language, setLanguage] = useState<LanguageCode>(config.defaultLanguage);
+  // Null takes the language's first assistant
+  const [chosenAssistantId, setChosenAssistantId] = useState<string | null>(null);
+  const languageAssistants = useMemo(
+    () => assistants.filter((option) => option.language === language),
+    [assistants, language],
+  );
+  const selectedAssistant =
+    languageAssistants.find((option) => option.assistantId === chosenAssistantId) ?? languageAssistants[0];
+  const [muted, setMuted] = useState(false);
+  const [pushToTalk, setPushToTalk] = useState(false);
+  const [typedMessage, setTypedMessage] = useState('');
+  const assistantLevelRef = useRef(0);
+  const getAssistantLevel = useCallback(() => assistantLevelRef.current, []);
+  const recorderRef = useRef<CallRecorder | null>(null);
+  const pendingCallRef = useRef<InsertCall | null>(null);
+  const latencyRef = useRef(new TurnLatencyTracker());
+  const [turns, setTurns] = useState<TurnTiming[]>([]);
+  const [leadDialogOpen, setLeadDialogOpen] = useState(false);
+  const [leadCall, setLeadCall] = useState<RecordedCall | null>(null);
+  const [leadSaved, setLeadSaved] = useState(false);
+
+  const addLog = (message: string, level: LogLevel, source: LogSource = 'ui', payload?: Record<string, unknown>) => {
+    callLog.add({ message, level, source, payload });
+  };
+
+  // The mock engine never opens the microphone, so only gate real calls
+  const prepareCall = async () => {
+    if (!engine) return t('failure.notInitialized');
+    if (!navigator.onLine) return t('failure.offline');
+    if (engine.kind === 'vapi') {
+      micCheck.stop();
+      const problem = await checkMicrophoneAccess(micCheck.inputId || undefined);
+      if (problem) {
+        micCheck.setProblem(problem);
+        setAudioCheckOpen(true);
+        addLog(`${problem.message} ${problem.fix}`, 'error', 'ui', { kind: problem.kind });
+        return t(`micProblem.${problem.kind}.message`);
+      }
+      micCheck.setProblem(null);
+    }
+    engine.setAudioDevices({
+      inputDeviceId: micCheck.inputId,
+      outputDeviceId: micCheck.outputId,
+    });
+    return null;
+  };
+
+  const handleTransition = (next: CallState, previous: CallState) => {
+    // The record starts once the microphone prompt is answered, so a call
+    // cancelled at the prompt leaves none behind
+    if (previous.status === 'requesting-mic') {
+      const pending = pendingCallRef.current;
+      pendingCallRef.current = null;
+      if (pending && next.status !== 'idle') recorderRef.current = new CallRecorder(pending);
+    }
+    const recorder = recorderRef.current;
+    switch (next.status) {
+      case 'idle':
+        if (previous.status === 'requesting-mic') addLog('Call cancelled before it started', 'info');
+        break;
+      case 'connecting':
+        if (next.attempt > 1) {
+          addLog(`Retrying connection (attempt ${next.attempt})`, 'warn', 'ui');
+          recorder?.event('retry', { attempt: next.attempt });
+        }
+        break;
+      case 'connected':
+        if (previous.status === 'connecting') {
+          addLog('Call started successfully', 'success', 'engine');
+          recorder?.event('call-start');
+        } else if (previous.status === 'connected' && previous.network.state !== next.network.state) {
+          if (next.network.state === 'stable') {
+            addLog('Connection recovered', 'success', 'network');
+          } else {
+            addLog(`Connection unstable: ${next.network.reason}`, 'warn', 'network');
+          }
+          recorder?.event('network', next.network);
+        }
+        break;
+      case 'ending':
+        addLog('Call stopped by user', 'info');
+        break;
+      case 'ended':
+        addLog('Call ended', 'info', 'engine', { reason: next.reason, durationSeconds: next.durationSeconds });
+        recorder?.end({ status: 'ended', endReason: next.reason });
+        // Ask for contact details once per visit, after a call that actually connected
+        if (recorder && !leadSaved && next.durationSeconds !== null) {
+          recorder.recorded.then((recorded) => {
+            setLeadCall(recorded);
+            setLeadDialogOpen(true);
+          });
+        }
+        break;
+      case 'failed':
+        addLog(`Call failed: ${next.message}`, 'error', next.reason === 'network-lost' ? 'network' : 'engine', { reason: next.reason });
+        recorder?.event('call-failed', { reason: next.reason, message: next.message });
+        recorder?.end({ status: 'failed', endReason: next.reason });
+        break;
+    }
+    if (next.status === 'ended' || next.status === 'failed') {
+      assistantLevelRef.current = 0;
+      setMuted(false);
+    }
+  };
+
+  const session = useCallSession({
+    engine,
+    prepare: prepareCall,
+    onTransition: handleTransition,
+    onProviderCallId: (providerCallId) => recorderRef.current?.link(providerCallId),
+  });
+  const callState = session.state;
+  const live = callState.status === 'connected';
+  const inCall = live || callState.status === 'requesting-mic' || callState.status === 'connecting' || callState.status === 'ending';
+
+  const talking = usePushToTalk(pushToTalk && live);
+  const micMuted = pushToTalk ? !talking : muted;
+  const getMicLevel = useMicrophoneLevel(live, micCheck.inputId);
+
+  // Initialize voice engine
   useEffect(() => {
-    const initializeVapi = async () => {
+    let disposed = false;
+    let created: VoiceEngine | null = null;
+
+    const initializeEngine = async () => {
       try {
-        // Import Vapi dynamically
-        const { default: Vapi } = await import('@vapi-ai/web');
-        
-        // Get API key from environment variables
-        const publicKey ="b41907e9-e09e-400d-96e8-221af9de85e1";
+        const engine = await createVoiceEngine(config);
+        if (disposed) {
+          engine.destroy();
+          return;
+        }
+        created = engine;
         
-        vapiClientRef.current = new Vapi(publicKey);
-        
-        // Set up event listeners
-        vapiClientRef.current.on('call-start', () => {
-          addLog('Call started successfully', 'success');
-          setCallStatus('connected');
-          setIsLoading(false);
-          callStartTimeRef.current = Date.now();
-          
-          // Start duration timer
-          durationIntervalRef.current = setInterval(() => {
-            if (callStartTimeRef.current) {
-              setCallDuration(Math.floor((Date.now() - callStartTimeRef.current) / 1000));
-            }
-          }, 1000);
+        // Set up event listeners; call state itself is tracked by useCallSession
+        engine.on('error', (error) => {
+          addLog(`Error: ${error.message}`, 'error', 'engine');
+          recorderRef.current?.event('error', { message: error.message });
         });
         
-        vapiClientRef.current.on('call-end', () => {
-          addLog('Call ended', 'info');
-          handleCallEnd();
+        engine.on('speech-start', () => {
+          addLog('Assistant started speaking', 'debug', 'engine');
+          recorderRef.current?.event('speech-start');
+          const turn = latencyRef.current.assistantStarted();
+          if (turn) {
+            addLog(`Response latency: ${formatLatency(turn.latencyMs)}`, 'debug', 'engine', { turnIndex: turn.turnIndex });
+            recorderRef.current?.turn(turn);
+            setTurns(prev => [...prev, turn]);
+          }
         });
         
-        vapiClientRef.current.on('error', (error: any) => {
-          addLog(`Error: ${error.message || 'Unknown error occurred'}`, 'error');
-          setCallStatus('error');
-          setIsLoading(false);
-          handleCallEnd();
+        engine.on('speech-end', () => {
+          addLog('Assistant stopped speaking', 'debug', 'engine');
+          recorderRef.current?.event('speech-end');
         });
-        
-        vapiClientRef.current.on('speech-start', () => {
-          addLog('User started speaking', 'info');
+
+        engine.on('speech-update', (update) => {
+          if (update.role === 'user') {
+            addLog(`User ${update.status} speaking`, 'debug', 'engine');
+            if (update.status === 'started') {
+              latencyRef.current.userStarted();
+            } else {
+              latencyRef.current.userStopped();
+            }
+          }
         });
-        
-        vapiClientRef.current.on('speech-end', () => {
-          addLog('User stopped speaking', 'info');
+
+        engine.on('volume-level', (volume) => {
+          assistantLevelRef.current = volume;
         });
-        
-        addLog('Voice agent initialized and ready', 'success');
+
+        engine.on('transcript', (event) => {
+          setTranscript(prev => applyTranscriptEvent(prev, event));
+          if (event.transcriptType === 'final') {
+            // Fallback end-of-turn signal for providers without speech updates
+            if (event.role === 'user') latencyRef.current.userStopped();
+            addLog(`${event.role === 'user' ? 'User' : 'Assistant'} said: ${event.text}`, 'debug', 'engine');
+            recorderRef.current?.transcript({ role: event.role, text: event.text });
+          }
+        });
+
+        setEngine(engine);
+        addLog(engine.kind === 'mock' ? 'Mock voice engine initialized and ready' : 'Voice agent initialized and ready', 'success');
         addLog('Multilingual AI voice agent ready for conversations', 'info');
         
       } catch (error) {
-        console.error('Failed to initialize Vapi:', error);
-        addLog('Failed to initialize voice agent. Please check your API key.', 'error');
+        console.error('Failed to initialize voice engine:', error);
+        addLog('Failed to initialize voice agent. Please check your API key.', 'error', 'engine', { error: String(error) });
       }
     };
 
-    initializeVapi();
+    initializeEngine();
 
     // Cleanup on unmount
     return () => {
-      if (durationIntervalRef.current) {
-        clearInterval(durationIntervalRef.current);
-      }
-      if (vapiClientRef.current) {
-        vapiClientRef.current.stop();
-      }
+      disposed = true;
+      created?.destroy();
+      setEngine(null);
     };
-  }, []);
-
-  const addLog = (message: string, type: LogEntry["type"]) => {
-    const newLog: LogEntry = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      timestamp: new Date().toLocaleTimeString(),
-      message,
-      type,
+  }, [config]);
+
+  useEffect(() => {
+    engine?.setMuted(micMuted);
+  }, [engine, micMuted]);
+
+  // Browsers throttle background tabs, which can explain gaps in the log
+  useEffect(() => {
+    if (!live) return;
+    const onVisibilityChange = () => {
+      addLog(document.visibilityState === 'hidden' ? 'Tab moved to the background during the call' : 'Tab back in the foreground', 'debug');
     };
-    setLogs(prev => [...prev, newLog]);
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', onVisibilityChange);
+  }, [live]);
+
+  const toggleMute = () => {
+    const next = !muted;
+    setMuted(next);
+    addLog(next ? 'Microphone muted' : 'Microphone unmuted', 'info');
+    if (live) {
+      recorderRef.current?.event(next ? 'mute' : 'unmute');
+    }
   };
 
-  const clearLogs = () => {
-    setLogs([]);
+  const sendTypedMessage = (event: React.FormEvent) => {
+    event.preventDefault();
+    const text = typedMessage.trim();
+    if (!text || !engine || !live) return;
+
+    engine.sendMessage(text);
+    setTranscript(prev => appendTypedMessage(prev, text));
+    addLog(`User typed: ${text}`, 'info');
+    recorderRef.current?.event('typed-message');
+    recorderRef.current?.transcript({ role: 'user', text });
+    setTypedMessage('');
   };
 
-  const handleCallEnd = () => {
-    setCallStatus('idle');
-    setCallDuration(0);
-    setIsLoading(false);
-    callStartTimeRef.current = null;
-    
-    if (durationIntervalRef.current) {
-      clearInterval(durationIntervalRef.current);
-      durationIntervalRef.current = null;
-    }
+  const togglePushToTalk = (enabled: boolean) => {
+    setPushToTalk(enabled);
+    addLog(enabled ? 'Push-to-talk enabled: hold Space to speak' : 'Push-to-talk disabled', 'info');
   };
 
-  const startCall = async () => {
-    if (!vapiClientRef.current) {
+  const startCall = (values: CallerContext) => {
+    if (!engine) {
       addLog('Voice agent not initialized', 'error');
       return;
     }
 
-    setIsLoading(true);
-    setCallStatus('connecting');
-    addLog('Initiating call...', 'info');
-
-    try {
-      // Get assistant ID from environment variables
-      const assistantId = "c0509670-4479-41f1-b9a3-b65ec464161a";
-
-      await vapiClientRef.current.start(assistantId);
-    } catch (error) {
-      console.error('Failed to start call:', error);
-      addLog(`Failed to start call: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
-      setCallStatus('error');
-      setIsLoading(false);
-    }
-  };
+    setTranscript([]);
+    setTurns([]);
+    setLeadCall(null);
+    latencyRef.current.reset();
+    addLog(`Initiating ${languageTitle(language)} call...`, 'info');
 
-  const stopCall = () => {
-    if (vapiClientRef.current) {
-      vapiClientRef.current.stop();
-      addLog('Call stopped by user', 'info');
+    const assistantId = selectedAssistant?.assistantId ?? config.vapiAssistantId;
+    const callerContext = compactCallerContext(values);
+    if (callerContext) {
+      addLog('Personalizing the call with caller details', 'info', 'ui', callerContext);
     }
-    handleCallEnd();
-  };
-
-  const formatDuration = (seconds: number) => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    recorderRef.current = null;
+    pendingCallRef.current = {
+      assistantId,
+      engine: engine.kind,
+      language,
+      callerContext,
+    };
+    session.start({ assistantId, overrides: toCallOverrides(callerContext) });
   };
 
   const getStatusConfig = () => {
-    switch (callStatus) {
+    switch (callState.status) {
       case 'connected':
         return {
           className: "bg-green-100 dark:bg-green-900/20 text-green-800 dark:text-green-400",
           dotClassName: "bg-green-500 animate-pulse-slow",
-          text: "Call in Progress...",
+          text: t('status.connected'),
           icon: CheckCircle
         };
+      case 'requesting-mic':
+        return {
+          className: "bg-brand-100 dark:bg-brand-900/20 text-brand-800 dark:text-brand-400",
+          dotClassName: "bg-brand-500 animate-pulse",
+          text: t('status.requestingMic'),
+          icon: Mic
+        };
       case 'connecting':
         return {
-          className: "bg-blue-100 dark:bg-blue-900/20 text-blue-800 dark:text-blue-400",
-          dotClassName: "bg-blue-500 animate-pulse",
-          text: "Connecting...",
+          className: "bg-brand-100 dark:bg-brand-900/20 text-brand-800 dark:text-brand-400",
+          dotClassName: "bg-brand-500 animate-pulse",
+          text: callState.attempt > 1 ? t('status.reconnecting', { attempt: callState.attempt }) : t('status.connecting'),
+          icon: Loader2
+        };
+      case 'ending':
+        return {
+          className: "bg-gray-100 dark:bg-gray-800/20 text-gray-800 dark:text-gray-400",
+          dotClassName: "bg-gray-400 animate-pulse",
+          text: t('status.ending'),
           icon: Loader2
         };
-      case 'error':
+      case 'failed':
         return {
           className: "bg-red-100 dark:bg-red-900/20 text-red-800 dark:text-red-400",
           dotClassName: "bg-red-500",
-          text: "Connection Error",
+          text: callState.reason === 'mic-unavailable' ? t('status.micUnavailable') : t('status.connectionError'),
           icon: AlertCircle
         };
+      case 'ended':
+        return {
+          className: "bg-gray-100 dark:bg-gray-800/20 text-gray-800 dark:text-gray-400",
+          dotClassName: "bg-gray-400",
+          text: callState.durationSeconds !== null
+            ? t('status.endedAfter', { duration: formatDuration(callState.durationSeconds, intlLocale) })
+            : t('status.ended'),
+          icon: Info
+        };
       default:
         return {
           className: "bg-gray-100 dark:bg-gray-800/20 text-gray-800 dark:text-gray-400",
           dotClassName: "bg-gray-400",
-          text: "Ready to Connect",
+          text: t('status.ready'),
           icon: Info
         };
     }
@@ -191,6 +412,71 @@ export default function Home() {
 
   const statusConfig = getStatusConfig();
 
+  const getFloorConfig = () => {
+    if (callState.status !== 'connected') return null;
+    switch (callState.floor) {
+      case 'assistant-speaking':
+        return {
+          className: "bg-brand-50 dark:bg-brand-900/20 text-brand-700 dark:text-brand-300",
+          text: t('floor.assistant'),
+          icon: Volume2
+        };
+      case 'user-speaking':
+        return {
+          className: "bg-green-50 dark:bg-green-900/20 text-green-700 dark:text-green-300",
+          text: t('floor.user'),
+          icon: Mic
+        };
+      default:
+        if (micMuted) {
+          return {
+            className: "bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300",
+            text: pushToTalk ? t('floor.holdSpace') : t('floor.muted'),
+            icon: MicOff
+          };
+        }
+        return {
+          className: "bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300",
+          text: t('floor.listening'),
+          icon: Ear
+        };
+    }
+  };
+
+  const floorConfig = getFloorConfig();
+  const network = callState.status === 'connected' ? callState.network : null;
+  const latency = useMemo(() => summarizeLatency(turns.map(turn => turn.latencyMs)), [turns]);
+  const SelectedFlag = languageFlags[language];
+
+  // Messages the machine writes itself get a translation; provider errors are shown as sent
+  const failureMessage = (state: Extract<CallState, { status: 'failed' }>) => {
+    switch (state.reason) {
+      case 'connect-timeout':
+        return t('failure.connectTimeout');
+      case 'network-lost':
+        return t('failure.networkLost');
+      default:
+        return state.message;
+    }
+  };
+
+  const assistantTitle = (option: AssistantOption) =>
+    option.name ?? t('call.assistant', { language: t(`language.${option.language}`) });
+
+  const selectLanguage = (code: LanguageCode) => {
+    if (inCall || !assistants.some((option) => option.language === code) || code === language) return;
+    setLanguage(code);
+    setChosenAssistantId(null);
+    addLog(`Selected the ${languageTitle(code)} assistant for the next call`, 'info');
+  };
+
+  const selectAssistant = (assistantId: string) => {
+    const option = languageAssistants.find((candidate) => candidate.assistantId === assistantId);
+    if (inCall || !option) return;
+    setChosenAssistantId(assistantId);
+    addLog(`Selected ${option.name ?? `the ${languageTitle(option.language)} assistant`} for the next call`, 'info');
+  };
+
   return (
     <div className="min-h-screen">
       {/* Header */}
@@ -198,7 +484,7 @@ export default function Home() {
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
           <div className="flex items-center justify-between">
             {/* Company Logo */}
-            <div className="flex items-center space-x-3">
+            <div className="flex items-center space-x-3 rtl:space-x-reverse">
               <img
                 src="/vela.png"
                 alt="Vocalcom Logo"
@@ -207,30 +493,38 @@ export default function Home() {
             </div>
             
             {/* Status Indicator */}
-            <div className="hidden sm:flex items-center space-x-2 animate-in slide-in-from-right-4 duration-500 delay-400">
-              <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse-slow"></div>
-              <span className="text-sm font-medium text-gray-700 dark:text-gray-300">System Ready</span>
+            <div className="flex items-center space-x-6 rtl:space-x-reverse">
+              <div className="hidden sm:flex items-center space-x-2 rtl:space-x-reverse animate-in slide-in-from-right-4 duration-500 delay-400">
+                <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse-slow"></div>
+                <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{t('header.systemReady')}</span>
+              </div>
+              <LanguageSwitcher />
+              <ThemeToggle />
+              <Link href="/calls" className="flex items-center text-sm text-gray-500 hover:text-brand-600 dark:text-gray-400 dark:hover:text-brand-400 transition-colors duration-200">
+                <LogIn className="w-4 h-4 me-1 rtl:-scale-x-100" />
+                {t('header.staff')}
+              </Link>
             </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
-      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Demo Banner */}
         <div className="animate-in fade-in slide-in-from-top-4 duration-500 mb-8">
-          <div className="bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl p-6 text-center shadow-lg">
-            <h2 className="text-2xl font-bold mb-2">Welcome to Vela AI</h2>
-            <p className="text-blue-100 mb-4">Experience our multilingual AI voice technology in action</p>
-            <div className="bg-white/20 backdrop-blur-sm rounded-lg px-4 py-2 inline-flex items-center space-x-2">
+          <div className="bg-gradient-to-r from-brand-600 to-brand-700 text-white rounded-xl p-6 text-center shadow-lg">
+            <h2 className="text-2xl font-bold mb-2">{t('banner.title')}</h2>
+            <p className="text-brand-100 mb-4">{t('banner.subtitle')}</p>
+            <div className="bg-white/20 backdrop-blur-sm rounded-lg px-4 py-2 inline-flex items-center space-x-2 rtl:space-x-reverse">
               <Phone className="w-4 h-4" />
-              <span className="font-medium">Click "Start Call" below to begin your demo experience</span>
+              <span className="font-medium">{t('banner.cta')}</span>
             </div>
           </div>
         </div>
 
         {/* Demo Interface - Moved to Top */}
-        <div className="animate-in fade-in slide-in-from-bottom-6 duration-700 delay-200 mb-16">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 animate-in fade-in slide-in-from-bottom-6 duration-700 delay-200 mb-16">
           <Card className="shadow-2xl border-0 bg-white/95 dark:bg-gray-900/95 backdrop-blur-sm">
             <CardContent className="p-8">
               {/* Company Logo */}
@@ -245,21 +539,86 @@ export default function Home() {
                 <div className="text-lg font-semibold text-gray-700 dark:text-gray-300"></div>
               </div>
 
+              {/* Connection Banner */}
+              {network && network.state !== 'stable' && (
+                <Alert variant={network.state === 'interrupted' ? 'destructive' : 'default'} className="mb-6 animate-in fade-in duration-300">
+                  <WifiOff className="h-4 w-4" />
+                  <AlertTitle>{t('network.title')}</AlertTitle>
+                  <AlertDescription>
+                    {network.state === 'interrupted' ? t('network.interrupted') : t('network.degraded')}
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Call Status Display */}
               <div className="text-center mb-8 animate-in fade-in slide-in-from-bottom-4 duration-500 delay-600">
                 <Badge 
                   variant="secondary" 
-                  className={`inline-flex items-center space-x-3 px-6 py-3 text-sm font-medium ${statusConfig.className} transition-all duration-300`}
+                  className={`inline-flex items-center space-x-3 rtl:space-x-reverse px-6 py-3 text-sm font-medium ${statusConfig.className} transition-all duration-300`}
                 >
                   <div className={`w-3 h-3 rounded-full ${statusConfig.dotClassName}`}></div>
                   <span>{statusConfig.text}</span>
                 </Badge>
+
+                {callState.status === 'failed' && (
+                  <p role="alert" className="mt-3 text-sm text-red-600 dark:text-red-400">{failureMessage(callState)}</p>
+                )}
+
+                {/* Response Latency */}
+                {(callState.status === 'ended' || callState.status === 'failed') && latency && (
+                  <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 flex items-center justify-center space-x-2 rtl:space-x-reverse animate-in fade-in duration-300">
+                    <Timer className="w-4 h-4" />
+                    <span>
+                      {t('latency.summary', {
+                        median: formatLatency(latency.medianMs, intlLocale),
+                        p95: formatLatency(latency.p95Ms, intlLocale),
+                        turns: t('latency.turns', { count: latency.turns }),
+                      })}
+                    </span>
+                  </div>
+                )}
+
+                {callState.status === 'ended' && !leadSaved && !leadDialogOpen && (
+                  <Button variant="link" size="sm" className="mt-2" onClick={() => setLeadDialogOpen(true)}>
+                    <Mail className="w-4 h-4 me-1" />
+                    {t('lead.reopen')}
+                  </Button>
+                )}
+
+                <div className="mt-4 text-sm text-gray-600 dark:text-gray-400 flex items-center justify-center space-x-2 rtl:space-x-reverse">
+                  <SelectedFlag className="w-6 h-4 rounded-sm shadow-sm" />
+                  <span>
+                    {selectedAssistant
+                      ? assistantTitle(selectedAssistant)
+                      : t('call.assistant', { language: t(`language.${language}`) })}
+                  </span>
+                </div>
                 
                 {/* Call Duration */}
-                {callStatus === 'connected' && (
-                  <div className="mt-4 text-sm text-gray-500 dark:text-gray-400 flex items-center justify-center space-x-2 animate-in fade-in duration-300">
+                {live && (
+                  <div className="mt-4 text-sm text-gray-500 dark:text-gray-400 flex items-center justify-center space-x-2 rtl:space-x-reverse animate-in fade-in duration-300">
                     <Clock className="w-4 h-4" />
-                    <span>Duration: {formatDuration(callDuration)}</span>
+                    <span>{t('call.duration', { duration: formatDuration(session.duration, intlLocale) })}</span>
+                    {network?.state === 'interrupted' && <span className="text-red-600 dark:text-red-400">{t('call.reconnecting')}</span>}
+                  </div>
+                )}
+
+                {/* Audio Visualizer */}
+                {live && (
+                  <div className="mt-6 animate-in fade-in duration-300">
+                    <AudioVisualizer getAssistantLevel={getAssistantLevel} getUserLevel={micMuted ? silence : getMicLevel} />
+                  </div>
+                )}
+
+                {/* Floor Indicator */}
+                {live && floorConfig && (
+                  <div
+                    role="status"
+                    aria-live="polite"
+                    className={`mt-4 inline-flex items-center space-x-2 rtl:space-x-reverse rounded-full px-4 py-2 text-sm font-medium transition-colors duration-300 ${floorConfig.className}`}
+                  >
+                    <floorConfig.icon className="w-4 h-4" />
+                    <span>{floorConfig.text}</span>
                   </div>
                 )}
               </div>
@@ -268,40 +627,109 @@ export default function Home() {
               <div className="flex flex-col sm:flex-row gap-4 justify-center items-center mb-8 animate-in fade-in slide-in-from-bottom-4 duration-500 delay-700">
                 {/* Start Call Button */}
                 <Button 
-                  onClick={startCall}
-                  disabled={callStatus === 'connected' || isLoading}
+                  onClick={callerForm.handleSubmit(startCall, () => setCallerFormOpen(true))}
+                  disabled={inCall}
                   size="lg"
-                  className="relative bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white font-semibold py-4 px-8 h-auto transition-all duration-300 transform hover:scale-105 hover:shadow-lg disabled:transform-none animate-pulse-slow"
+                  className="relative bg-gradient-to-r from-brand-600 to-brand-700 hover:from-brand-700 hover:to-brand-800 text-white font-semibold py-4 px-8 h-auto transition-all duration-300 transform hover:scale-105 hover:shadow-lg disabled:transform-none animate-pulse-slow"
                 >
-                  {isLoading ? (
+                  {inCall && !live ? (
                     <>
-                      <Loader2 className="w-5 h-5 mr-3 animate-spin" />
-                      Connecting...
+                      <Loader2 className="w-5 h-5 me-3 animate-spin" />
+                      {callState.status === 'ending' ? t('controls.ending') : t('controls.connecting')}
                     </>
                   ) : (
                     <>
-                      <Phone className="w-5 h-5 mr-3" />
-                      Start Call
+                      <Phone className="w-5 h-5 me-3" />
+                      {t('controls.start')}
                     </>
                   )}
                 </Button>
 
                 {/* Stop Call Button */}
                 <Button 
-                  onClick={stopCall}
-                  disabled={callStatus !== 'connected'}
+                  onClick={session.stop}
+                  disabled={!inCall || callState.status === 'ending'}
                   variant="destructive"
                   size="lg"
                   className="font-semibold py-4 px-8 h-auto transition-all duration-300 transform hover:scale-105 hover:shadow-lg disabled:transform-none"
                 >
-                  <PhoneOff className="w-5 h-5 mr-3" />
-                  Stop Call
+                  <PhoneOff className="w-5 h-5 me-3" />
+                  {t('controls.stop')}
+                </Button>
+              </div>
+
+              {/* In-call Controls */}
+              <div className="flex flex-col sm:flex-row gap-4 justify-center items-center mb-8">
+                <Button
+                  onClick={toggleMute}
+                  disabled={pushToTalk}
+                  variant={muted ? 'secondary' : 'outline'}
+                  aria-pressed={muted}
+                >
+                  {muted ? <MicOff className="w-4 h-4 me-2" /> : <Mic className="w-4 h-4 me-2" />}
+                  {muted ? t('controls.unmute') : t('controls.mute')}
                 </Button>
+                <div className="flex items-center space-x-2 rtl:space-x-reverse">
+                  <Switch id="push-to-talk" checked={pushToTalk} onCheckedChange={togglePushToTalk} />
+                  <Label htmlFor="push-to-talk" className="text-sm text-gray-600 dark:text-gray-400">
+                    {t('controls.pushToTalk')}
+                  </Label>
+                </div>
               </div>
 
+              {/* Typed Message */}
+              <form onSubmit={sendTypedMessage} className="flex gap-2 mb-8">
+                <Input
+                  value={typedMessage}
+                  onChange={(event) => setTypedMessage(event.target.value)}
+                  placeholder={live ? t('typed.placeholder') : t('typed.placeholderIdle')}
+                  aria-label={t('typed.label')}
+                  maxLength={500}
+                  disabled={!live}
+                />
+                <Button type="submit" variant="outline" disabled={!live || !typedMessage.trim()}>
+                  <Send className="w-4 h-4 me-2 rtl:-scale-x-100" />
+                  {t('typed.send')}
+                </Button>
+              </form>
+
+              {/* Caller Details */}
+              <Collapsible open={callerFormOpen} onOpenChange={setCallerFormOpen}>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="w-full justify-between text-gray-600 dark:text-gray-400">
+                    <span className="flex items-center">
+                      <UserRound className="w-4 h-4 me-2" />
+                      {t('callerForm.title')}
+                    </span>
+                    <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${callerFormOpen ? 'rotate-180' : ''}`} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="pt-4 pb-4">
+                  <CallerContextForm form={callerForm} disabled={inCall} />
+                </CollapsibleContent>
+              </Collapsible>
+
+              {/* Pre-call Audio Check */}
+              <Collapsible open={audioCheckOpen} onOpenChange={setAudioCheckOpen}>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="w-full justify-between text-gray-600 dark:text-gray-400">
+                    <span className="flex items-center">
+                      <Headphones className="w-4 h-4 me-2" />
+                      {t('audioCheck.title')}
+                    </span>
+                    <ChevronDown className={`w-4 h-4 transition-transform duration-200 ${audioCheckOpen ? 'rotate-180' : ''}`} />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent className="pt-4">
+                  <AudioCheckPanel check={micCheck} disabled={inCall} />
+                </CollapsibleContent>
+              </Collapsible>
 
             </CardContent>
           </Card>
+
+          {/* Live Transcript */}
+          <TranscriptPanel entries={transcript} />
         </div>
 
         {/* Multilingual Support Section */}
@@ -310,48 +738,69 @@ export default function Home() {
             <CardContent className="p-8">
               <div className="text-center">
                 <h3 className="text-2xl font-bold vela-dark dark:text-white mb-3 flex items-center justify-center">
-                  <Globe className="w-6 h-6 mr-3 vela-blue" />
-                  Multilingual Support
+                  <Globe className="w-6 h-6 me-3 vela-blue" />
+                  {t('languages.title')}
                 </h3>
-                <p className="text-lg text-gray-600 dark:text-gray-400 mb-6">Our AI agent communicates fluently in multiple languages</p>
+                <p className="text-lg text-gray-600 dark:text-gray-400 mb-6">{t('languages.subtitle')}</p>
                 
                 {/* Tunisian Dialect Highlight */}
-                <div className="bg-gradient-to-r from-blue-50 to-indigo-50 dark:from-blue-900/20 dark:to-indigo-900/20 rounded-xl p-6 mb-8 border border-blue-100 dark:border-blue-800">
+                <div className="bg-gradient-to-r from-brand-50 to-brand-100 dark:from-brand-900/20 dark:to-brand-950/20 rounded-xl p-6 mb-8 border border-brand-100 dark:border-brand-800">
                   <div className="flex items-center justify-center mb-3">
-                    <div className="w-12 h-9 mr-3">
+                    <div className="w-12 h-9 me-3">
                       <TN className="w-full h-full object-cover rounded shadow-sm" />
                     </div>
-                    <span className="font-bold text-xl text-blue-700 dark:text-blue-300">Specialized in Tunisian Dialect</span>
+                    <span className="font-bold text-xl text-brand-700 dark:text-brand-300">{t('languages.tunisianTitle')}</span>
                   </div>
-                  <p className="text-blue-600 dark:text-blue-400 font-medium">Complete support for all Arabic dialects and regional variations</p>
+                  <p className="text-brand-600 dark:text-brand-400 font-medium">{t('languages.tunisianBody')}</p>
                 </div>
                 
                 {/* Language Grid */}
                 <div className="grid grid-cols-4 md:grid-cols-9 gap-6 max-w-4xl mx-auto">
-                  {[
-                    { Flag: US, title: "English", name: "EN" },
-                    { Flag: ES, title: "Spanish", name: "ES" },
-                    { Flag: FR, title: "French", name: "FR" },
-                    { Flag: DE, title: "German", name: "DE" },
-                    { Flag: CN, title: "Chinese", name: "CN" },
-                    { Flag: SA, title: "Arabic", name: "AR" },
-                    { Flag: IT, title: "Italian", name: "IT" },
-                    { Flag: JP, title: "Japanese", name: "JP" },
-                    { Flag: TN, title: "Tunisian", name: "TN" }
-                  ].map((lang, index) => (
-                    <div 
-                      key={lang.title}
-                      title={lang.title} 
-                      className="flex flex-col items-center hover:scale-110 transition-transform duration-300 cursor-pointer animate-in fade-in duration-300 group bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm hover:shadow-md"
-                      style={{ animationDelay: `${600 + index * 100}ms` }}
-                    >
-                      <div className="w-16 h-12 mb-3 group-hover:animate-bounce">
-                        <lang.Flag className="w-full h-full object-cover rounded shadow-sm" />
-                      </div>
-                      <span className="text-base font-bold text-gray-700 dark:text-gray-300">{lang.name}</span>
-                    </div>
-                  ))}
+                  {demoLanguages.map((lang, index) => {
+                    const Flag = languageFlags[lang.code];
+                    const available = assistants.some((option) => option.language === lang.code);
+                    const selected = lang.code === language;
+                    const title = t(`language.${lang.code}`);
+                    return (
+                      <button
+                        key={lang.code}
+                        type="button"
+                        title={available ? title : t('languages.comingSoon', { language: title })}
+                        aria-pressed={selected}
+                        disabled={!available || inCall}
+                        onClick={() => selectLanguage(lang.code)}
+                        className={`flex flex-col items-center transition-transform duration-300 animate-in fade-in duration-300 group bg-white dark:bg-gray-800 rounded-lg p-4 shadow-sm disabled:cursor-not-allowed ${
+                          available ? 'hover:scale-110 hover:shadow-md' : 'opacity-50'
+                        } ${selected ? 'ring-2 ring-brand-600 dark:ring-brand-400' : ''}`}
+                        style={{ animationDelay: `${600 + index * 100}ms` }}
+                      >
+                        <div className={`w-16 h-12 mb-3 ${available ? 'group-hover:animate-bounce' : ''}`}>
+                          <Flag className="w-full h-full object-cover rounded shadow-sm" />
+                        </div>
+                        <span className="text-base font-bold text-gray-700 dark:text-gray-300">{lang.code}</span>
+                      </button>
+                    );
+                  })}
                 </div>
+
+                {/* Several assistants speak this language: the configured one and published ones */}
+                {languageAssistants.length > 1 && selectedAssistant && (
+                  <div className="mt-6 flex items-center justify-center gap-3">
+                    <Label htmlFor="assistant-choice">{t('languages.assistant')}</Label>
+                    <Select value={selectedAssistant.assistantId} onValueChange={selectAssistant} disabled={inCall}>
+                      <SelectTrigger id="assistant-choice" className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {languageAssistants.map((option) => (
+                          <SelectItem key={option.assistantId} value={option.assistantId}>
+                            {assistantTitle(option)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -360,31 +809,25 @@ export default function Home() {
         {/* Hero Text - Now Below Demo */}
         <div className="text-center mb-12 animate-in fade-in slide-in-from-bottom-4 duration-700 delay-400">
           <h2 className="text-4xl sm:text-5xl font-bold vela-dark dark:text-white mb-6">
-            Experience the Future of{" "}
-            <span className="bg-gradient-to-r from-blue-600 to-blue-700 bg-clip-text text-transparent">
-              AI Voice Agents
+            {t('hero.titleStart')}{" "}
+            <span className="bg-gradient-to-r from-brand-600 to-brand-700 bg-clip-text text-transparent">
+              {t('hero.titleHighlight')}
             </span>
           </h2>
           <p className="text-xl text-gray-600 dark:text-gray-400 max-w-3xl mx-auto leading-relaxed mb-8">
-            Discover our cutting-edge multilingual AI voice agent. Engage in natural conversations 
-            across multiple languages with advanced understanding and human-like responses.
+            {t('hero.body')}
           </p>
           
           {/* AI Agent Capabilities */}
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 max-w-4xl mx-auto">
-            {[
-              { title: "Inbound Calls", desc: "Handle incoming customer inquiries", delay: "500ms" },
-              { title: "Outbound Calls", desc: "Proactive customer outreach", delay: "600ms" },
-              { title: "Customer Service", desc: "24/7 support and assistance", delay: "700ms" },
-              { title: "Lead Qualification", desc: "Intelligent lead scoring and routing", delay: "800ms" }
-            ].map((capability, index) => (
+            {capabilities.map((capability) => (
               <div 
-                key={capability.title}
+                key={capability.key}
                 className="bg-white dark:bg-gray-800/50 rounded-lg p-4 shadow-sm border border-gray-100 dark:border-gray-700 hover:shadow-md hover:scale-105 transition-all duration-300 animate-in fade-in slide-in-from-bottom-4"
                 style={{ animationDelay: capability.delay }}
               >
-                <div className="text-blue-600 dark:text-blue-400 font-semibold text-sm mb-1">{capability.title}</div>
-                <div className="text-gray-600 dark:text-gray-400 text-xs">{capability.desc}</div>
+                <div className="text-brand-600 dark:text-brand-400 font-semibold text-sm mb-1">{t(`capability.${capability.key}.title`)}</div>
+                <div className="text-gray-600 dark:text-gray-400 text-xs">{t(`capability.${capability.key}.desc`)}</div>
               </div>
             ))}
           </div>
@@ -392,53 +835,7 @@ export default function Home() {
 
         {/* Logs Panel */}
         <div className="animate-in fade-in slide-in-from-bottom-4 duration-700 delay-600">
-          <Card className="shadow-xl hover:shadow-2xl transition-shadow duration-300">
-            <CardContent className="p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h3 className="text-lg font-semibold vela-dark dark:text-white flex items-center">
-                  <Terminal className="w-5 h-5 mr-2 vela-blue" />
-                  Call Logs
-                </h3>
-                <Button 
-                  onClick={clearLogs}
-                  variant="ghost"
-                  size="sm"
-                  className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200 transition-colors duration-200"
-                >
-                  <Trash2 className="w-4 h-4 mr-1" />
-                  Clear
-                </Button>
-              </div>
-              
-              <ScrollArea className="h-40 w-full border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-900/50">
-                <div className="p-4">
-                  {logs.length === 0 ? (
-                    <div className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
-                      <Info className="w-4 h-4 inline mr-2" />
-                      Call logs will appear here...
-                    </div>
-                  ) : (
-                    <div className="space-y-2">
-                      {logs.map((log) => {
-                        const IconComponent = log.type === 'success' ? CheckCircle : 
-                                            log.type === 'error' ? AlertCircle : Info;
-                        const iconColor = log.type === 'success' ? 'text-green-500' : 
-                                         log.type === 'error' ? 'text-red-500' : 'text-blue-500';
-                        
-                        return (
-                          <div key={log.id} className="flex items-start space-x-2 text-sm animate-in fade-in slide-in-from-left-2 duration-300">
-                            <IconComponent className={`w-4 h-4 mt-0.5 ${iconColor}`} />
-                            <span className="text-gray-500 dark:text-gray-400">[{log.timestamp}]</span>
-                            <span className="text-gray-700 dark:text-gray-300 flex-1">{log.message}</span>
-                          </div>
-                        );
-                      })}
-                    </div>
-                  )}
-                </div>
-              </ScrollArea>
-            </CardContent>
-          </Card>
+          <CallLogPanel />
         </div>
       </main>
 
@@ -446,42 +843,54 @@ export default function Home() {
       <footer className="bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-800 mt-16 animate-in fade-in slide-in-from-bottom-4 duration-700 delay-800">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
           <div className="text-center">
-            <h4 className="text-lg font-semibold vela-dark dark:text-white mb-4">Contact Vela AI</h4>
-            <div className="flex flex-col sm:flex-row justify-center items-center space-y-2 sm:space-y-0 sm:space-x-8 text-gray-600 dark:text-gray-400">
+            <h4 className="text-lg font-semibold vela-dark dark:text-white mb-4">{t('footer.contact')}</h4>
+            <div className="flex flex-col sm:flex-row justify-center items-center space-y-2 sm:space-y-0 sm:space-x-8 sm:rtl:space-x-reverse text-gray-600 dark:text-gray-400">
 
               <a 
                 href="mailto:contact@velaagencies.com"
                 target="_blank" 
                 rel="noopener noreferrer"
-                className="flex items-center hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+                className="flex items-center hover:text-brand-600 dark:hover:text-brand-400 transition-colors duration-200"
               >
-                <Globe className="w-4 h-4 mr-2" />
+                <Globe className="w-4 h-4 me-2" />
                 <span>contact@velaagencies.com</span>
               </a>
-              <div className="flex items-center space-x-4">
+              <div className="flex items-center space-x-4 rtl:space-x-reverse">
                 <a 
                   href="tel:+15715239063" 
-                  className="flex items-center hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+                  className="flex items-center hover:text-brand-600 dark:hover:text-brand-400 transition-colors duration-200"
                 >
-                  <Phone className="w-4 h-4 mr-2" />
-                  <span>+1 (571) 523-9063</span>
+                  <Phone className="w-4 h-4 me-2" />
+                  <span dir="ltr">+1 (571) 523-9063</span>
                 </a>
                 <span className="text-gray-400">/</span>
                 <a 
                   href="tel:+21695926440" 
-                  className="flex items-center hover:text-blue-600 dark:hover:text-blue-400 transition-colors duration-200"
+                  className="flex items-center hover:text-brand-600 dark:hover:text-brand-400 transition-colors duration-200"
                 >
-                  <Phone className="w-4 h-4 mr-2" />
-                  <span>+216 95 926 440</span>
+                  <Phone className="w-4 h-4 me-2" />
+                  <span dir="ltr">+216 95 926 440</span>
                 </a>
               </div>
             </div>
             <div className="mt-6 pt-4 border-t border-gray-200 dark:border-gray-700">
-              <p className="text-sm text-gray-500 dark:text-gray-400">© 2025 Vela AI. Powered by advanced voice intelligence technology.</p>
+              <p className="text-sm text-gray-500 dark:text-gray-400">{t('footer.copyright')}</p>
             </div>
           </div>
         </div>
       </footer>
+
+      <LeadCaptureDialog
+        open={leadDialogOpen}
+        onOpenChange={setLeadDialogOpen}
+        call={leadCall}
+        defaults={{ name: callerForm.getValues('prospectName'), company: callerForm.getValues('company') }}
+        onSubmitted={() => {
+          setLeadSaved(true);
+          setLeadDialogOpen(false);
+          addLog('Lead details saved', 'success', 'network', { callId: leadCall?.id });
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useMutation, useQuery, keepPreviousData } from "@tanstack/react-query";
+import { Loader2, X } from "lucide-react";
+import { leadStatuses, type Lead, type LeadListResponse, type LeadStatus } from "@shared/schema";
+import StaffLayout from "@/components/staff-layout";
+import CallDetailView from "@/components/call-detail";
+import ListPagination from "@/components/list-pagination";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDateTime } from "@/lib/format";
+
+const PAGE_SIZE = 20;
+
+function buildLeadsUrl(status: LeadStatus | "all", page: number) {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (status !== "all") {
+    params.set("status", status);
+  }
+  return `/api/leads?${params}`;
+}
+
+export default function LeadsPage() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<LeadStatus | "all">("all");
+  const [page, setPage] = useState(1);
+  const [selectedCallId, setSelectedCallId] = useState<number | null>(null);
+
+  const { data, isLoading, isFetching, error } = useQuery<LeadListResponse>({
+    queryKey: [buildLeadsUrl(status, page)],
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+
+  const updateStatus = useMutation<Lead, Error, { id: number; status: LeadStatus }>({
+    mutationFn: async ({ id, status }) => {
+      const res = await apiRequest("PATCH", `/api/leads/${id}`, { status });
+      return await res.json();
+    },
+    onSuccess: () => {
+      // Every cached page may hold the lead, and the status filter may now drop it
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/leads"),
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Could not update the lead", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <StaffLayout
+      title="Leads"
+      description={data ? `${data.total} leads from demo calls` : "Contact details left after demo calls"}
+    >
+      <Card className="shadow-xl">
+        <CardContent className="p-6 space-y-4">
+          {/* Filters */}
+          <div className="flex flex-wrap items-center gap-3">
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as LeadStatus | "all");
+                setPage(1);
+              }}
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {leadStatuses.map((s) => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {status !== "all" && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  setStatus("all");
+                  setPage(1);
+                }}
+              >
+                <X className="w-4 h-4 me-1" />
+                Clear filter
+              </Button>
+            )}
+
+            {isFetching && <Loader2 className="w-4 h-4 animate-spin text-brand-600" />}
+          </div>
+
+          {/* Results */}
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Contact</TableHead>
+                <TableHead>Company</TableHead>
+                <TableHead>Interest</TableHead>
+                <TableHead>Call</TableHead>
+                <TableHead className="w-40">Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8">
+                    <Loader2 className="w-5 h-5 animate-spin inline text-brand-600" />
+                  </TableCell>
+                </TableRow>
+              ) : error ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-red-600">
+                    Failed to load leads: {error.message}
+                  </TableCell>
+                </TableRow>
+              ) : data?.items.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="text-center py-8 text-gray-500">
+                    No leads yet.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                data?.items.map((lead) => (
+                  <TableRow key={lead.id}>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(lead.createdAt)}</TableCell>
+                    <TableCell className="font-medium">{lead.name}</TableCell>
+                    <TableCell>
+                      <a href={`mailto:${lead.email}`} className="block text-brand-600 hover:underline">{lead.email}</a>
+                      {lead.phone && (
+                        <a href={`tel:${lead.phone}`} className="block text-gray-500 hover:underline">{lead.phone}</a>
+                      )}
+                    </TableCell>
+                    <TableCell>{lead.company ?? "—"}</TableCell>
+                    <TableCell className="max-w-xs whitespace-pre-wrap">{lead.interest ?? "—"}</TableCell>
+                    <TableCell>
+                      {lead.callId !== null ? (
+                        <Button variant="link" size="sm" className="px-0" onClick={() => setSelectedCallId(lead.callId)}>
+                          #{lead.callId}
+                        </Button>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={lead.status}
+                        onValueChange={(value) => updateStatus.mutate({ id: lead.id, status: value as LeadStatus })}
+                        disabled={updateStatus.isPending && updateStatus.variables?.id === lead.id}
+                      >
+                        <SelectTrigger className="h-8" aria-label={`Status of ${lead.name}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {leadStatuses.map((s) => (
+                            <SelectItem key={s} value={s}>{s}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+
+          <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+        </CardContent>
+      </Card>
+
+      <Sheet open={selectedCallId !== null} onOpenChange={(open) => !open && setSelectedCallId(null)}>
+        <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+          <SheetHeader className="mb-4">
+            <SheetTitle>Call #{selectedCallId}</SheetTitle>
+            <SheetDescription>The demo call this lead came from</SheetDescription>
+          </SheetHeader>
+          {selectedCallId !== null && <CallDetailView callId={selectedCallId} />}
+        </SheetContent>
+      </Sheet>
+    </StaffLayout>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, keepPreviousData } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { z } from "zod";
+import { Loader2, PhoneOutgoing } from "lucide-react";
+import {
+  outboundCallStatuses,
+  phoneNumberSchema,
+  type OutboundCall,
+  type OutboundCallListResponse,
+  type OutboundCallStatus,
+} from "@shared/schema";
+import StaffLayout from "@/components/staff-layout";
+import ListPagination from "@/components/list-pagination";
+import OutboundAttempts from "@/components/outbound-attempts";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useAvailableAssistants } from "@/hooks/use-assistants";
+import { useToast } from "@/hooks/use-toast";
+import { assistantLabel } from "@/lib/config";
+import { formatDateTime } from "@/lib/format";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+const PAGE_SIZE = 20;
+const ATTEMPT_OPTIONS = [1, 2, 3, 4, 5];
+// While something is waiting or ringing, keep the table close to live
+const ACTIVE_REFRESH_MS = 3000;
+
+const scheduleFormSchema = z.object({
+  phoneNumber: phoneNumberSchema,
+  assistantId: z.string().min(1, "Pick an assistant"),
+  /** `datetime-local` value, read in the browser's time zone. */
+  scheduledFor: z
+    .string()
+    .min(1, "Pick a time")
+    .refine((value) => !Number.isNaN(new Date(value).getTime()), "Pick a valid time"),
+  maxAttempts: z.number().int().min(1).max(5),
+});
+
+type ScheduleFormValues = z.infer<typeof scheduleFormSchema>;
+
+function localInputValue(date: Date) {
+  return format(date, "yyyy-MM-dd'T'HH:mm");
+}
+
+function buildOutboundUrl(status: OutboundCallStatus | "all", page: number) {
+  const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+  if (status !== "all") {
+    params.set("status", status);
+  }
+  return `/api/outbound-calls?${params}`;
+}
+
+function invalidateOutboundCalls() {
+  return queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/outbound-calls"),
+  });
+}
+
+export default function OutboundPage() {
+  const { toast } = useToast();
+  const assistants = useAvailableAssistants();
+  const [status, setStatus] = useState<OutboundCallStatus | "all">("all");
+  const [page, setPage] = useState(1);
+
+  const form = useForm<ScheduleFormValues>({
+    resolver: zodResolver(scheduleFormSchema),
+    defaultValues: {
+      phoneNumber: "",
+      assistantId: assistants[0]?.assistantId ?? "",
+      scheduledFor: localInputValue(new Date()),
+      maxAttempts: 1,
+    },
+  });
+
+  const { data, isLoading, isFetching, error } = useQuery<OutboundCallListResponse>({
+    queryKey: [buildOutboundUrl(status, page)],
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    refetchInterval: (query) =>
+      query.state.data?.items.some((call) => call.status === "scheduled" || call.status === "dialing")
+        ? ACTIVE_REFRESH_MS
+        : false,
+  });
+
+  const scheduleCall = useMutation<OutboundCall, Error, ScheduleFormValues>({
+    mutationFn: async (values) => {
+      const res = await apiRequest("POST", "/api/outbound-calls", {
+        ...values,
+        scheduledFor: new Date(values.scheduledFor),
+      });
+      return await res.json();
+    },
+    onSuccess: (call) => {
+      toast({ title: "Call scheduled", description: `${call.phoneNumber} at ${formatDateTime(call.scheduledFor)}` });
+      form.reset({ ...form.getValues(), phoneNumber: "", scheduledFor: localInputValue(new Date()) });
+      invalidateOutboundCalls();
+    },
+    onError: (error) => {
+      toast({ title: "Could not schedule the call", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelCall = useMutation<OutboundCall, Error, number>({
+    mutationFn: async (id) => {
+      const res = await apiRequest("POST", `/api/outbound-calls/${id}/cancel`);
+      return await res.json();
+    },
+    onSuccess: () => invalidateOutboundCalls(),
+    onError: (error) => {
+      toast({ title: "Could not cancel the call", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const labelFor = (assistantId: string) => {
+    const match = assistants.find((option) => option.assistantId === assistantId);
+    return match ? assistantLabel(match) : assistantId;
+  };
+
+  const pageCount = data ? Math.max(1, Math.ceil(data.total / data.pageSize)) : 1;
+
+  return (
+    <StaffLayout
+      title="Outbound Calls"
+      description={data ? `Dialing through the ${data.provider} provider` : "Phone calls placed by the assistant"}
+    >
+      <div className="space-y-6">
+        <Card className="shadow-xl">
+          <CardHeader>
+            <CardTitle className="text-lg">Schedule a call</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form
+                onSubmit={form.handleSubmit((values) => scheduleCall.mutate(values))}
+                className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start"
+              >
+                <FormField
+                  control={form.control}
+                  name="phoneNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone number</FormLabel>
+                      <FormControl>
+                        <Input type="tel" placeholder="+216 95 926 440" autoComplete="off" {...field} />
+                      </FormControl>
+                      {data?.provider === "fake" && (
+                        <FormDescription>Test numbers: ending in 1 never answers, 2 is busy, 3 fails.</FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="assistantId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Assistant</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Pick an assistant" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {assistants.map((option) => (
+                            <SelectItem key={`${option.language}-${option.assistantId}`} value={option.assistantId}>
+                              {assistantLabel(option)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scheduledFor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>When</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="maxAttempts"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Attempts</FormLabel>
+                      <Select value={String(field.value)} onValueChange={(value) => field.onChange(Number(value))}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {ATTEMPT_OPTIONS.map((n) => (
+                            <SelectItem key={n} value={String(n)}>
+                              {n === 1 ? "1 (no retry)" : `Up to ${n}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Busy and unanswered calls are retried.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="md:col-span-4 flex justify-end">
+                  <Button type="submit" disabled={scheduleCall.isPending}>
+                    {scheduleCall.isPending ? (
+                      <Loader2 className="w-4 h-4 me-2 animate-spin" />
+                    ) : (
+                      <PhoneOutgoing className="w-4 h-4 me-2" />
+                    )}
+                    Schedule call
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-xl">
+          <CardContent className="p-6 space-y-4">
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-3">
+              <Select
+                value={status}
+                onValueChange={(value) => {
+                  setStatus(value as OutboundCallStatus | "all");
+                  setPage(1);
+                }}
+              >
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {outboundCallStatuses.map((s) => (
+                    <SelectItem key={s} value={s}>{s}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              {isFetching && <Loader2 className="w-4 h-4 animate-spin text-brand-600" />}
+            </div>
+
+            {/* Results */}
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Assistant</TableHead>
+                  <TableHead>Scheduled for</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Attempts</TableHead>
+                  <TableHead className="text-end">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8">
+                      <Loader2 className="w-5 h-5 animate-spin inline text-brand-600" />
+                    </TableCell>
+                  </TableRow>
+                ) : error ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-red-600">
+                      Failed to load outbound calls: {error.message}
+                    </TableCell>
+                  </TableRow>
+                ) : data?.items.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center py-8 text-gray-500">
+                      No outbound calls yet.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  data?.items.map((call) => (
+                    <TableRow key={call.id}>
+                      <TableCell className="font-mono whitespace-nowrap">{call.phoneNumber}</TableCell>
+                      <TableCell>{labelFor(call.assistantId)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(call.scheduledFor)}</TableCell>
+                      <TableCell>
+                        <Badge variant={call.status === "failed" ? "destructive" : "secondary"}>{call.status}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <OutboundAttempts call={call} />
+                      </TableCell>
+                      <TableCell className="text-end">
+                        {call.status === "scheduled" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => cancelCall.mutate(call.id)}
+                            disabled={cancelCall.isPending && cancelCall.variables === call.id}
+                          >
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+
+            <ListPagination page={page} pageCount={pageCount} onPageChange={setPage} />
+          </CardContent>
+        </Card>
+      </div>
+    </StaffLayout>
+  );
+}
@@ -0,0 +1,16 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_VOICE_ENGINE?: "vapi" | "mock";
+  readonly VITE_VAPI_PUBLIC_KEY?: string;
+  readonly VITE_VAPI_ASSISTANT_ID?: string;
+  readonly VITE_DEFAULT_LANGUAGE?: string;
+  /** JSON object mapping language codes to assistant IDs. */
+  readonly VITE_VAPI_ASSISTANTS?: string;
+  /** JSON palette with `light` and `dark` token overrides. */
+  readonly VITE_PALETTE?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
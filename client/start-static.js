@@ -3,7 +3,7 @@
 import { spawn } from 'child_process';
 import path from 'path';
 
-// Run Vite directly for static frontend
+// Run Vite directly for a static frontend without the API server
 const vite = spawn('npx', ['vite', '--port', '5000', '--host', '0.0.0.0'], {
   cwd: process.cwd(),
   stdio: 'inherit'
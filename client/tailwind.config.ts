@@ -49,6 +49,13 @@ export default {
           DEFAULT: "var(--destructive)",
           foreground: "var(--destructive-foreground)",
         },
+        // Brand shades come from the active palette, see src/lib/theme.ts
+        brand: Object.fromEntries(
+          [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950].map((shade) => [
+            shade,
+            `hsl(var(--brand-${shade}) / <alpha-value>)`,
+          ]),
+        ),
         border: "var(--border)",
         input: "var(--input)",
         ring: "var(--ring)",